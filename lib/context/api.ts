@@ -1,24 +1,33 @@
 import type {
 	ComputedFn,
 	ComputedOptions,
+	ContextDisposeReport,
 	ContextState,
+	EffectCallback,
 	EffectFn,
 	EffectOptions,
-	ReactiveContext,
+	FlushStrategy,
+	InstrumentationHooks,
+	ReactiveDependencies,
 	Signal,
 	SignalOptions,
-	SignalValue,
+	WritableComputed,
+	WritableComputedAccessors,
 } from "../types";
+import { addHooks, resolveFlushWaiters } from "../utils";
+import { withContextState } from "./utils";
 
 /**
  * Creates a context API with reactive capabilities.
+ * Every primitive runs inside the context, so signals, effects and computed values
+ * created through the API track, batch and flush on the context's own state.
  *
  * @param dependencies - The reactive context dependencies that provide core functionality
  * @param state - The current context state for tracking signals and effects
  * @returns An object containing reactive programming utilities.
  */
 export function createContextAPI(
-	dependencies: ReactiveContext,
+	dependencies: ReactiveDependencies,
 	state: ContextState,
 ) {
 	return {
@@ -30,9 +39,9 @@ export function createContextAPI(
 		 * @returns A new signal.
 		 */
 		signal<T>(initialValue: T, options?: SignalOptions<T>): Signal<T> {
-			const s = dependencies.signal(initialValue, options);
-			state.signals.add(s);
-			return s;
+			return withContextState(state, () =>
+				dependencies.signal(initialValue, options),
+			);
 		},
 		/**
 		 * Creates a new effect with the given function and options.
@@ -40,50 +49,29 @@ export function createContextAPI(
 		 *
 		 * @param fn The function to execute as the effect.
 		 * @param options Optional options for the effect.
-		 * @returns A wrapped cleanup function that removes the effect from the context and executes the original cleanup function.
+		 * @returns A cleanup function that disposes the effect and removes it from the context.
 		 */
-		effect(fn: EffectFn, options?: EffectOptions): EffectFn {
-			const cleanup = dependencies.effect(fn, options) as EffectFn;
-			const wrappedCleanup = () => {
-				state.effects.delete(cleanup);
-				return cleanup();
-			};
-
-			state.effects.add(cleanup);
-
-			for (const prop of Object.getOwnPropertyNames(cleanup)) {
-				if (prop !== "name" && prop !== "length") {
-					Object.defineProperty(
-						wrappedCleanup,
-						prop,
-						Object.getOwnPropertyDescriptor(
-							cleanup,
-							prop,
-						) as PropertyDescriptor,
-					);
-				}
-			}
-
-			if (cleanup._effect) {
-				Object.defineProperty(wrappedCleanup, "_effect", {
-					value: cleanup._effect,
-				});
-			}
-
-			return wrappedCleanup;
+		effect(fn: EffectCallback, options?: EffectOptions): EffectFn {
+			return withContextState(state, () => dependencies.effect(fn, options));
 		},
 		/**
 		 * Creates a computed signal whose value is derived from other signals.
 		 *
-		 * @param computedFn A function that computes the value of the signal. It can read other signals, and it will be re-executed whenever any of its dependencies change.
+		 * @param computedFn A function that computes the value of the signal, or `get` and `set` functions for a writable computed value. It can read other signals, and it will be re-executed whenever any of its dependencies change.
 		 * @param options Optional configuration for the computed signal, such as specifying an equality function to prevent unnecessary updates.
-		 * @returns A `SignalValue` representing the computed value.
+		 * @returns A `SignalValue` representing the computed value, writable when a setter is given.
 		 */
 		computed<T>(
-			computedFn: ComputedFn<T>,
+			computedFn: ComputedFn<T> | WritableComputedAccessors<T>,
 			options?: ComputedOptions<T>,
-		): SignalValue<T> {
-			return dependencies.computed(computedFn, options);
+		): WritableComputed<T> {
+			// The overloads of computed only differ in types, the function decides at runtime
+			return withContextState(state, () =>
+				dependencies.computed(
+					computedFn as WritableComputedAccessors<T>,
+					options,
+				),
+			);
 		},
 		/**
 		 * Batches a series of operations together.
@@ -95,7 +83,7 @@ export function createContextAPI(
 		 * @returns The result of the function.
 		 */
 		batch<T>(fn: () => T): T {
-			return dependencies.batch(fn);
+			return withContextState(state, () => dependencies.batch(fn));
 		},
 		/**
 		 * Executes the provided function without tracking its dependencies.
@@ -107,7 +95,78 @@ export function createContextAPI(
 		 * @returns The result of the provided function.
 		 */
 		untracked<T>(fn: () => T): T {
-			return dependencies.untracked(fn);
+			return withContextState(state, () => dependencies.untracked(fn));
+		},
+		/**
+		 * Registers instrumentation hooks observing the context.
+		 *
+		 * Hooks are called for every signal, computed value, effect, batch and flush of the context.
+		 * Errors thrown by hooks are logged and don't affect the reactive system.
+		 *
+		 * @param hooks The hooks to register.
+		 * @returns A function unregistering the hooks.
+		 */
+		instrument(hooks: InstrumentationHooks): () => void {
+			return addHooks(state, hooks);
+		},
+		/**
+		 * Sets how the effects queued by a batch are flushed when the outermost batch ends.
+		 *
+		 * @param strategy The flush strategy: "sync", "microtask" or a function receiving the flush to run.
+		 */
+		setFlushStrategy(strategy: FlushStrategy): void {
+			state.flushStrategy = strategy;
+		},
+		/**
+		 * Disposes of the context and everything created in it.
+		 *
+		 * Pending notifications are dropped, every effect and computed value is disposed
+		 * (cancelling pending debounced runs), and further writes to the context's signals are ignored.
+		 * Nothing is queued afterwards, and effects and computed values created in it are disposed right away.
+		 * A batch in progress still ends normally.
+		 * Calling it again is a no-op that reports nothing torn down.
+		 *
+		 * @returns A report of the resources that were released.
+		 */
+		dispose(): ContextDisposeReport {
+			const report: ContextDisposeReport = {
+				id: state.id,
+				effects: 0,
+				computeds: 0,
+				pendingNotifications: 0,
+				timers: 0,
+			};
+
+			if (state.disposed) return report;
+			state.disposed = true;
+
+			// Drop queued work first so disposal doesn't trigger any more runs
+			report.pendingNotifications = state.pendingNotifications.length;
+			state.pendingNotifications.length = 0;
+			state.pendingRegistry.clear();
+			state.flushScheduled = false;
+			resolveFlushWaiters(state);
+
+			// Child effects are disposed by their parents, every effect is only torn down once
+			const effects = [...state.effects];
+			report.effects = effects.length;
+			report.timers = effects.filter((e) => e._hasPendingTimer).length;
+			for (const disposeEffect of effects) {
+				disposeEffect();
+			}
+
+			const computeds = [...state.computeds];
+			report.computeds = computeds.length;
+			for (const computedValue of computeds) {
+				computedValue._cleanup();
+			}
+
+			state.effects.clear();
+			state.computeds.clear();
+			state.effectDependencies.clear();
+			state.hooks.length = 0;
+
+			return report;
 		},
 	};
 }
@@ -3,15 +3,19 @@ import { computed } from "../core/computed";
 import { effect } from "../core/effect";
 import { signal } from "../core/signal";
 import { untracked } from "../core/untracked";
-import type { ContextState, ReactiveContext } from "../types";
-import { createReactiveState } from "../utils";
+import type {
+	ContextState,
+	ReactiveContext,
+	ReactiveDependencies,
+} from "../types";
+import { createReactiveState, inheritTracker } from "../utils";
 import { createContextAPI } from "./api";
 
 // Track context states using WeakMap for proper garbage collection
 const contextStates = new WeakMap<ReactiveContext, ContextState>();
 
-// Track the current context
-const currentContext: ReactiveContext | null = null;
+// Track the state of the context currently in use
+let currentState: ContextState | null = null;
 
 // Symbol for storing default context in global scope
 const DEFAULT_CONTEXT_KEY = Symbol.for("reactiveContext");
@@ -23,9 +27,9 @@ const DEFAULT_CONTEXT_KEY = Symbol.for("reactiveContext");
  * @returns A new reactive context instance with initialized state and context API
  */
 export function createReactiveContext(
-	dependencies: ReactiveContext,
+	dependencies: ReactiveDependencies,
+	id = `ctx_${Math.random().toString(36).slice(2, 10)}`,
 ): ReactiveContext {
-	const id = `ctx_${Math.random().toString(36).slice(2, 10)}`;
 	const state = createReactiveState(id);
 	const context = createContextAPI(dependencies, state);
 	registerContextState(context, state);
@@ -39,14 +43,63 @@ export function createReactiveContext(
  * @returns The active context state
  */
 export function getCurrentContext(): ContextState {
-	const ctx = currentContext || getDefaultContext();
-	const state = contextStates.get(ctx);
+	if (currentState) return currentState;
+	const state = contextStates.get(getDefaultContext());
 	if (!state) {
 		throw new Error("No active reactive state available");
 	}
 	return state;
 }
 
+/**
+ * Runs a function with the given context as the current context.
+ * Signals, effects and computed values created inside the function belong to that context,
+ * and batching and untracked reads apply to its state.
+ * The previous context is restored when the function returns or throws.
+ *
+ * @param context - The reactive context to switch to
+ * @param fn - The function to run inside the context
+ * @returns The result of the function
+ */
+export function withContext<T>(context: ReactiveContext, fn: () => T): T {
+	return withContextState(getContextState(context), fn);
+}
+
+/**
+ * Retrieves the state registered for a reactive context.
+ *
+ * @param context - The reactive context
+ * @returns The context state
+ */
+export function getContextState(context: ReactiveContext): ContextState {
+	const state = contextStates.get(context);
+	if (!state) {
+		throw new Error("No reactive state registered for context");
+	}
+	return state;
+}
+
+/**
+ * Runs a function with the given state as the current context state.
+ * Used by primitives to re-enter the context they were created in.
+ *
+ * @param state - The context state to switch to
+ * @param fn - The function to run inside the context
+ * @returns The result of the function
+ */
+export function withContextState<T>(state: ContextState, fn: () => T): T {
+	// Reads in the switched state keep registering with the caller's running effect
+	const restoreTracker = inheritTracker(state, getCurrentContext());
+	const previousState = currentState;
+	currentState = state;
+	try {
+		return fn();
+	} finally {
+		currentState = previousState;
+		restoreTracker();
+	}
+}
+
 /**
  * Retrieves the default reactive context.
  * Uses the globalThis object to store and retrieve a default ReactiveContext.
@@ -61,15 +114,16 @@ export function getDefaultContext(): ReactiveContext {
 	// Create default context if it doesn't exist
 	if (!globalObj[DEFAULT_CONTEXT_KEY]) {
 		// Use bridge to create context, avoiding circular import
-		const context = createReactiveContext({
-			signal,
-			effect,
-			computed,
-			batch,
-			untracked,
-		});
-		globalObj[DEFAULT_CONTEXT_KEY] = context;
-		registerContextState(context, createReactiveState("default-context")); // Register state for default context
+		globalObj[DEFAULT_CONTEXT_KEY] = createReactiveContext(
+			{
+				signal,
+				effect,
+				computed,
+				batch,
+				untracked,
+			},
+			"default-context",
+		);
 	}
 
 	return globalObj[DEFAULT_CONTEXT_KEY];
@@ -1,5 +1,5 @@
 import { getCurrentContext } from "../context";
-import { flushEffects } from "../utils";
+import { emitHook, flushEffects, requestFlush } from "../utils";
 
 /**
  * Batches a series of operations together, preventing intermediate effects from being flushed until the batch is complete.
@@ -12,27 +12,53 @@ import { flushEffects } from "../utils";
  *
  */
 export function batch<T>(fn: () => T): T {
-  const ctx = getCurrentContext();
+	const ctx = getCurrentContext();
 
-  // Increment batch depth
-  ctx.batchDepth = (ctx.batchDepth || 0) + 1;
+	// Increment batch depth
+	ctx.batchDepth = (ctx.batchDepth || 0) + 1;
+	emitHook(ctx, "onBatchStart", { depth: ctx.batchDepth });
 
-  try {
-    return fn();
-  } finally {
-    // Decrement batch depth
-    ctx.batchDepth = ctx.batchDepth - 1;
+	try {
+		return fn();
+	} finally {
+		// Decrement batch depth
+		ctx.batchDepth = ctx.batchDepth - 1;
+		emitHook(ctx, "onBatchEnd", { depth: ctx.batchDepth });
 
-    // If we're back at the top level, flush any pending effects
-    if (ctx.batchDepth === 0) {
-      if (
-        typeof window !== "undefined" &&
-        typeof queueMicrotask === "function"
-      ) {
-        queueMicrotask(() => flushEffects(ctx));
-      } else {
-        flushEffects(ctx);
-      }
-    }
-  }
+		// If we're back at the top level, flush any pending effects
+		if (ctx.batchDepth === 0) {
+			requestFlush(ctx);
+		}
+	}
+}
+
+/**
+ * Runs the pending effects of the current context immediately,
+ * without waiting for a flush scheduled by the flush strategy.
+ * Pending effects of a batch in progress run too.
+ */
+export function flushSync(): void {
+	flushEffects(getCurrentContext());
+}
+
+/**
+ * Returns a promise that resolves after the next flush of the current context.
+ * It resolves right away when no batch is in progress and nothing is waiting to be flushed.
+ *
+ * @returns A promise resolving once pending effects have run
+ */
+export function tick(): Promise<void> {
+	const ctx = getCurrentContext();
+
+	return new Promise((resolve) => {
+		if (
+			ctx.batchDepth > 0 ||
+			ctx.flushScheduled ||
+			ctx.pendingNotifications.length > 0
+		) {
+			ctx.flushWaiters.push(resolve);
+		} else {
+			resolve();
+		}
+	});
 }
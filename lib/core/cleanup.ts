@@ -0,0 +1,85 @@
+import type { OnCleanup } from "../types";
+
+// Track the run collecting cleanups registered with onCleanup
+let activeCollector: OnCleanup | undefined;
+
+/**
+ * Registers a cleanup function for the currently running effect or computed value.
+ * Cleanups run before the next execution and when the effect or computed value is disposed,
+ * and can be registered several times per run.
+ *
+ * Only the synchronous part of a run can use this helper. Async effects should use
+ * the `onCleanup` function passed to the effect to register cleanups after `await`.
+ *
+ * @param fn - The cleanup function
+ */
+export function onCleanup(fn: () => void): void {
+	if (activeCollector) {
+		activeCollector(fn);
+	} else {
+		console.warn("onCleanup called outside of a running effect or computed");
+	}
+}
+
+/**
+ * @internal
+ * Creates the cleanup collector of a single run.
+ * Cleanups registered after the run has been cleaned up, for example after `await`
+ * in an async effect that re-ran in the meantime, run immediately.
+ *
+ * @param label - The kind of node the run belongs to, used in error messages
+ * @returns The function registering cleanups and the function running them
+ */
+export function createRunCleanups(label: string): {
+	add: OnCleanup;
+	run: () => void;
+} {
+	const cleanups: Array<() => void> = [];
+	let isCleaned = false;
+
+	/**
+	 * Runs a cleanup function, logging any error
+	 */
+	const runSafely = (cleanup: () => void) => {
+		try {
+			cleanup();
+		} catch (error) {
+			console.error(`Error in ${label} cleanup:`, error);
+		}
+	};
+
+	return {
+		add(cleanup) {
+			if (isCleaned) {
+				runSafely(cleanup);
+			} else {
+				cleanups.push(cleanup);
+			}
+		},
+		run() {
+			if (isCleaned) return;
+			isCleaned = true;
+			for (const cleanup of cleanups.splice(0)) {
+				runSafely(cleanup);
+			}
+		},
+	};
+}
+
+/**
+ * @internal
+ * Runs a function with the given collector receiving `onCleanup` registrations.
+ *
+ * @param collector - The function registering cleanups for the current run
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function withCleanups<T>(collector: OnCleanup, fn: () => T): T {
+	const previousCollector = activeCollector;
+	activeCollector = collector;
+	try {
+		return fn();
+	} finally {
+		activeCollector = previousCollector;
+	}
+}
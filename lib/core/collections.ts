@@ -0,0 +1,394 @@
+import { getCurrentContext, withContextState } from "../context";
+import type {
+	CollectionOptions,
+	ContextState,
+	Signal,
+	SignalArray,
+	SignalMap,
+	SignalSet,
+} from "../types";
+import { getActiveTracker, markNode } from "../utils";
+import { batch } from "./batch";
+import { signal } from "./signal";
+
+// Node tracking the addition and removal of entries
+const KEYS = Symbol("collection.keys");
+
+// Node tracking every change to the entries
+const VALUES = Symbol("collection.values");
+
+/**
+ * Creates a reactive `Map` with per-key tracking.
+ * Effects reading a key only re-run when that key changes.
+ *
+ * @template K - The type of the keys
+ * @template V - The type of the values
+ * @param entries - Optional initial entries
+ * @param options - Optional configuration options
+ * @returns The reactive map
+ */
+export function signalMap<K, V>(
+	entries?: Iterable<readonly [K, V]>,
+	options?: CollectionOptions,
+): SignalMap<K, V> {
+	const ctx = getCurrentContext();
+	const raw = new Map<K, V>(entries);
+	const nodes = createNodes(ctx, options?.name);
+
+	/**
+	 * Writes a key, notifying only when the entry changed
+	 */
+	const write = (key: K, value: V) => {
+		const isNew = !raw.has(key);
+		if (!isNew && Object.is(raw.get(key), value)) return;
+
+		raw.set(key, value);
+		batch(() => {
+			nodes.trigger(key);
+			if (isNew) nodes.trigger(KEYS);
+			nodes.trigger(VALUES);
+		});
+	};
+
+	const map: SignalMap<K, V> = {
+		get(key) {
+			nodes.track(key);
+			return raw.get(key);
+		},
+		has(key) {
+			nodes.track(key);
+			return raw.has(key);
+		},
+		set(key, value) {
+			withContextState(ctx, () => write(key, value));
+			return map;
+		},
+		setAll(entries) {
+			withContextState(ctx, () =>
+				batch(() => {
+					for (const [key, value] of entries) {
+						write(key, value);
+					}
+				}),
+			);
+			return map;
+		},
+		delete(key) {
+			if (!raw.has(key)) return false;
+
+			raw.delete(key);
+			withContextState(ctx, () =>
+				batch(() => {
+					nodes.trigger(key);
+					nodes.trigger(KEYS);
+					nodes.trigger(VALUES);
+				}),
+			);
+			nodes.release(key);
+			return true;
+		},
+		clear() {
+			if (raw.size === 0) return;
+
+			const keys = [...raw.keys()];
+			raw.clear();
+			withContextState(ctx, () =>
+				batch(() => {
+					for (const key of keys) {
+						nodes.trigger(key);
+					}
+					nodes.trigger(KEYS);
+					nodes.trigger(VALUES);
+				}),
+			);
+			for (const key of keys) {
+				nodes.release(key);
+			}
+		},
+		get size() {
+			nodes.track(KEYS);
+			return raw.size;
+		},
+		keys() {
+			nodes.track(KEYS);
+			return [...raw.keys()].values();
+		},
+		values() {
+			nodes.track(VALUES);
+			return [...raw.values()].values();
+		},
+		entries() {
+			nodes.track(VALUES);
+			return [...raw.entries()].values();
+		},
+		forEach(callback) {
+			for (const [key, value] of map.entries()) {
+				callback(value, key);
+			}
+		},
+		[Symbol.iterator]() {
+			return map.entries();
+		},
+	};
+
+	return map;
+}
+
+/**
+ * Creates a reactive `Set` with per-value tracking.
+ * Effects checking a value only re-run when that value is added or removed.
+ *
+ * @template T - The type of the values
+ * @param values - Optional initial values
+ * @param options - Optional configuration options
+ * @returns The reactive set
+ */
+export function signalSet<T>(
+	values?: Iterable<T>,
+	options?: CollectionOptions,
+): SignalSet<T> {
+	const ctx = getCurrentContext();
+	const raw = new Set<T>(values);
+	const nodes = createNodes(ctx, options?.name);
+
+	/**
+	 * Adds a value, notifying only when it was not in the set
+	 */
+	const write = (value: T) => {
+		if (raw.has(value)) return;
+
+		raw.add(value);
+		batch(() => {
+			nodes.trigger(value);
+			nodes.trigger(VALUES);
+		});
+	};
+
+	const set: SignalSet<T> = {
+		has(value) {
+			nodes.track(value);
+			return raw.has(value);
+		},
+		add(value) {
+			withContextState(ctx, () => write(value));
+			return set;
+		},
+		addAll(values) {
+			withContextState(ctx, () =>
+				batch(() => {
+					for (const value of values) {
+						write(value);
+					}
+				}),
+			);
+			return set;
+		},
+		delete(value) {
+			if (!raw.has(value)) return false;
+
+			raw.delete(value);
+			withContextState(ctx, () =>
+				batch(() => {
+					nodes.trigger(value);
+					nodes.trigger(VALUES);
+				}),
+			);
+			nodes.release(value);
+			return true;
+		},
+		clear() {
+			if (raw.size === 0) return;
+
+			const values = [...raw];
+			raw.clear();
+			withContextState(ctx, () =>
+				batch(() => {
+					for (const value of values) {
+						nodes.trigger(value);
+					}
+					nodes.trigger(VALUES);
+				}),
+			);
+			for (const value of values) {
+				nodes.release(value);
+			}
+		},
+		get size() {
+			nodes.track(VALUES);
+			return raw.size;
+		},
+		values() {
+			nodes.track(VALUES);
+			return [...raw].values();
+		},
+		forEach(callback) {
+			for (const value of set.values()) {
+				callback(value);
+			}
+		},
+		[Symbol.iterator]() {
+			return set.values();
+		},
+	};
+
+	return set;
+}
+
+/**
+ * Creates a reactive array with per-index tracking.
+ * Effects reading an index only re-run when the item at that index changes,
+ * including when mutations shift items around.
+ *
+ * @template T - The type of the items
+ * @param items - Optional initial items
+ * @param options - Optional configuration options
+ * @returns The reactive array
+ */
+export function signalArray<T>(
+	items?: Iterable<T>,
+	options?: CollectionOptions,
+): SignalArray<T> {
+	const ctx = getCurrentContext();
+	const raw: T[] = items ? [...items] : [];
+	const nodes = createNodes(ctx, options?.name);
+
+	// Tracks the length separately from the indexes
+	const LENGTH = "length";
+
+	/**
+	 * Applies a mutation to the items and notifies the indexes whose item changed
+	 */
+	const mutate = <R>(fn: (items: T[]) => R): R => {
+		const previous = raw.slice();
+		const result = fn(raw);
+
+		withContextState(ctx, () =>
+			batch(() => {
+				let changed = previous.length !== raw.length;
+				const end = Math.max(previous.length, raw.length);
+				for (let i = 0; i < end; i++) {
+					if (!Object.is(previous[i], raw[i])) {
+						changed = true;
+						nodes.trigger(i);
+					}
+				}
+
+				if (previous.length !== raw.length) nodes.trigger(LENGTH);
+				if (changed) nodes.trigger(VALUES);
+			}),
+		);
+
+		return result;
+	};
+
+	const array: SignalArray<T> = {
+		get(index) {
+			nodes.track(index);
+			return raw[index];
+		},
+		set(index, value) {
+			if (index < raw.length && Object.is(raw[index], value)) return;
+			mutate((items) => {
+				items[index] = value;
+			});
+		},
+		get length() {
+			nodes.track(LENGTH);
+			return raw.length;
+		},
+		push(...items) {
+			return mutate((current) => current.push(...items));
+		},
+		pop() {
+			return mutate((current) => current.pop());
+		},
+		unshift(...items) {
+			return mutate((current) => current.unshift(...items));
+		},
+		shift() {
+			return mutate((current) => current.shift());
+		},
+		splice(start, deleteCount = raw.length - start, ...items) {
+			return mutate((current) => current.splice(start, deleteCount, ...items));
+		},
+		replace(items) {
+			const next = [...items];
+			mutate((current) => {
+				current.length = 0;
+				current.push(...next);
+			});
+		},
+		toArray() {
+			nodes.track(VALUES);
+			return raw.slice();
+		},
+		[Symbol.iterator]() {
+			return array.toArray().values();
+		},
+	};
+
+	return array;
+}
+
+/**
+ * Creates the version signals tracking the entries of a collection.
+ * Signals are created lazily when an entry is first read by an effect or computed value,
+ * in the collection's context, and dropped once nothing reads them anymore.
+ */
+function createNodes(ctx: ContextState, name?: string) {
+	const nodes = new Map<unknown, Signal<number>>();
+
+	// The number of nodes at which nodes without readers are swept
+	let sweepAt = 16;
+
+	/**
+	 * Drops the nodes that no effect or computed value reads anymore
+	 */
+	const sweep = () => {
+		for (const [key, node] of nodes) {
+			if (node._deps.size === 0) nodes.delete(key);
+		}
+		sweepAt = Math.max(16, nodes.size * 2);
+	};
+
+	return {
+		/**
+		 * Tracks an entry in the running effect or computed value
+		 */
+		track(key: unknown) {
+			// Untracked reads don't need a node
+			if (!getActiveTracker(getCurrentContext())) return;
+
+			let node = nodes.get(key);
+			if (!node) {
+				if (nodes.size >= sweepAt) sweep();
+				node = withContextState(ctx, () =>
+					markNode(signal(0, { name: name && `${name}.${String(key)}` })),
+				);
+				nodes.set(key, node);
+			}
+			node();
+		},
+		/**
+		 * Notifies the readers of an entry, dropping its node when it has none
+		 */
+		trigger(key: unknown) {
+			const node = nodes.get(key);
+			if (!node) return;
+
+			if (node._deps.size === 0) {
+				nodes.delete(key);
+			} else {
+				node.update((version) => version + 1);
+			}
+		},
+		/**
+		 * Drops the signal of a removed entry once nothing reads it anymore
+		 */
+		release(key: unknown) {
+			if (nodes.get(key)?._deps.size === 0) {
+				nodes.delete(key);
+			}
+		},
+	};
+}
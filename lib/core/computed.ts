@@ -1,12 +1,72 @@
-import type { ComputedFn, ComputedOptions, SignalValue } from "../types";
-import { effect } from "./effect";
-import { signal } from "./signal";
+import { getCurrentContext, withContextState } from "../context";
+import type {
+	ComputedFn,
+	ComputedOptions,
+	ComputedOptionsWithInitial,
+	EffectFn,
+	SignalValue,
+	WritableComputed,
+	WritableComputedAccessors,
+} from "../types";
+import {
+	CLEAN,
+	DIRTY,
+	elapsedSince,
+	emitHook,
+	isInstrumented,
+	isStale,
+	markChanged,
+	recordChange,
+	setActiveTracker,
+	startTiming,
+	strictEqual,
+	takeCauses,
+	trackDependency,
+} from "../utils";
+import { unsubscribeDependencies } from "../utils/dependency";
+import { batch } from "./batch";
+import { createRunCleanups, withCleanups } from "./cleanup";
+import { getCurrentScope, withScope } from "./scope";
+import { createSubscribe } from "./subscribe";
 import { untracked } from "./untracked";
 
+/**
+ * Creates a writable computed signal that derives its value from other reactive dependencies.
+ * Writes are routed to the setter, which updates the signals the value derives from,
+ * inside a batch and without tracking.
+ *
+ * @template T - The type of the computed value
+ * @param accessors - Functions that compute the derived value and handle writes
+ * @param options - Optional configuration options
+ *
+ * @returns A signal-like accessor function that returns the current computed value and can be written
+ */
+export function computed<T>(
+	accessors: WritableComputedAccessors<T>,
+	options?: ComputedOptions<T>,
+): WritableComputed<T>;
+/**
+ * Creates a computed signal starting from an initial value, which the computed function
+ * receives as the previous value on its first run.
+ *
+ * @template T - The type of the computed value
+ * @param computedFn - Function that computes the derived value from the previous one
+ * @param options - Configuration options including the initial value
+ *
+ * @returns A signal-like accessor function that returns the current computed value
+ */
+export function computed<T>(
+	computedFn: ComputedFn<T, T>,
+	options: ComputedOptionsWithInitial<T>,
+): SignalValue<T>;
 /**
  * Creates a computed signal that derives its value from other reactive dependencies.
  * The computed value is lazily evaluated and cached until its dependencies change.
  *
+ * Changes are propagated push-pull: writes mark the computed value as possibly stale,
+ * and the value is only re-evaluated when read, at most once per change,
+ * after all of its own dependencies have settled.
+ *
  * @template T - The type of the computed value
  * @param computedFn - Function that computes the derived value
  * @param options - Optional configuration options
@@ -17,16 +77,37 @@ import { untracked } from "./untracked";
 export function computed<T>(
 	computedFn: ComputedFn<T>,
 	options?: ComputedOptions<T>,
+): SignalValue<T>;
+export function computed<T>(
+	computedFnOrAccessors: ComputedFn<T> | WritableComputedAccessors<T>,
+	options?: ComputedOptions<T>,
 ): SignalValue<T> {
+	const ctx = getCurrentContext();
+	const scope = getCurrentScope();
 	// Extract options with defaults
-	const { name, onError, onComputed, keepAlive = false } = options || {};
-	// Create a backing signal to store the computed value
-	const backingSignal = signal<T>(undefined as unknown as T, { name });
+	const {
+		name,
+		onError,
+		onComputed,
+		keepAlive = false,
+		equals = strictEqual,
+		initial,
+	} = options || {};
+
+	// Writable computed values provide a setter along with the computed function
+	const [computedFn, write] =
+		typeof computedFnOrAccessors === "function"
+			? [computedFnOrAccessors, undefined]
+			: [computedFnOrAccessors.get, computedFnOrAccessors.set];
 
 	// Internal state management
-	let value: T; // Cached value
-	let isStale = true; // Indicates if the cached value needs to be recomputed
+	let value = initial as T; // Cached value, the initial value until computed
+	let hasValue = false; // Indicates if a value has been computed at least once
 	let isDisposed = false; // Indicates if this computed signal has been cleaned up
+	let runCleanups: (() => void) | undefined; // Cleanups registered during the latest evaluation
+
+	// Track effects and computed values that depend on this value using WeakRefs
+	const subscribers = new Set<WeakRef<EffectFn>>();
 
 	/**
 	 * Standardized error handling for compute operations
@@ -42,81 +123,225 @@ export function computed<T>(
 	};
 
 	/**
-	 * Computes the value and updates the internal state
-	 * Triggers the onComputed callback if provided
+	 * Runs the computed function with this computed value as the active tracker
+	 * Notifies subscribers waiting on a check only when the value actually changed
 	 */
 	const computeAndUpdate = () => {
-		const newValue = computedFn();
-		backingSignal.set(newValue);
+		// Clean up after the previous evaluation
+		runCleanups?.();
+
+		// Changes recorded while tracing that led to this evaluation
+		const causes = takeCauses(observer);
+
+		// Remove prior subscriptions, dependencies are collected again while computing
+		unsubscribeDependencies(observer, ctx);
+
+		const cleanups = createRunCleanups("computed");
+		runCleanups = cleanups.run;
+
+		const previousTracker = ctx.activeTracker;
+		setActiveTracker(ctx, observer);
+
+		const startTime = startTiming(ctx);
+		let newValue: T;
+		try {
+			// Run inside the computed value's own context and scope so nested primitives belong to them
+			newValue = withScope(scope, () =>
+				withContextState(ctx, () =>
+					withCleanups(cleanups.add, () => computedFn(value)),
+				),
+			);
+		} finally {
+			setActiveTracker(ctx, previousTracker);
+		}
+
+		observer._state = CLEAN;
+		observer._failed = false;
+
+		const changed = !hasValue || !equals(value, newValue);
+		if (isInstrumented(ctx)) {
+			emitHook(ctx, "onComputedEvaluate", {
+				computed: accessor as SignalValue<unknown>,
+				value: newValue,
+				changed,
+				duration: elapsedSince(startTime),
+			});
+		}
+
+		if (!changed) {
+			return;
+		}
+
+		recordChange(ctx, subscribers, {
+			type: "computed",
+			source: accessor,
+			oldValue: value,
+			newValue,
+			causes,
+		});
+
+		hasValue = true;
 		value = newValue;
-		isStale = false;
+		markChanged(subscribers);
 
 		if (onComputed) {
 			// Run callback outside of tracking context to avoid circular dependencies
-			untracked(() => onComputed(value));
+			withContextState(ctx, () => untracked(() => onComputed(value)));
 		}
+	};
 
-		return newValue;
+	/**
+	 * Brings the cached value up to date
+	 * Only re-evaluates when a direct dependency changed or a computed dependency produced a new value
+	 */
+	const refresh = () => {
+		if (isDisposed || observer._state === CLEAN) return;
+
+		if (isStale(ctx, observer)) {
+			computeAndUpdate();
+		} else {
+			observer._state = CLEAN;
+		}
 	};
 
 	/**
-	 * Safely attempts to compute the value
-	 * @param withUpdate - Whether to update the internal state with the computed value
-	 * @returns The computed value or undefined if an error occurred
+	 * Safely attempts to refresh the value
+	 * A failed computation stays dirty so the next read retries it
 	 */
-	const tryCompute = (withUpdate = true) => {
+	const tryRefresh = () => {
 		try {
-			return withUpdate ? computeAndUpdate() : computedFn();
+			refresh();
 		} catch (error) {
+			observer._state = DIRTY;
+			observer._failed = true;
 			const maybeThrow = handleError(error);
 			if (maybeThrow) throw maybeThrow;
 		}
 	};
 
 	/**
-	 * Set up a reactive effect that tracks dependencies of the computed function
-	 * This makes the computed value automatically update when dependencies change
+	 * The observer registered with dependencies of the computed function
+	 * Invoked by the flush queue for keepAlive computed values to eagerly refresh
 	 */
-	const cleanup = effect(
-		() => {
-			if (isDisposed) return;
-			// Mark as stale whenever dependencies change
-			isStale = true;
-
-			if (keepAlive) {
-				// For keepAlive mode, immediately compute and update the value
-				tryCompute(true);
-			} else {
-				// Otherwise, just run the function to capture dependencies without updating
-				tryCompute(false);
-			}
-		},
-		{ name: `${name || "computed"}_tracker` },
-	);
+	const observer: EffectFn = () => {
+		try {
+			refresh();
+		} catch (error) {
+			observer._state = DIRTY;
+			observer._failed = true;
+			handleError(error);
+		}
+	};
+
+	// Attach metadata to the observer
+	Object.defineProperties(observer, {
+		_name: { value: name },
+		_isComputed: { value: true },
+		_keepAlive: { value: keepAlive },
+		_state: { value: DIRTY, writable: true },
+		_failed: { value: false, writable: true },
+		_disposed: { value: false, writable: true },
+		_deps: { get: () => subscribers },
+		_handle: { get: () => accessor },
+		_sources: { get: () => ctx.effectDependencies.get(observer) },
+	});
+
+	// Create dependency tracking set in context
+	ctx.effectDependencies.set(observer, new Set());
 
 	/**
 	 * The accessor function that returns the computed value
 	 * Lazily computes the value when accessed if it's stale
 	 */
 	const accessor = () => {
-		if (isStale && !isDisposed) {
-			tryCompute(true);
-		}
+		tryRefresh();
 
-		return backingSignal();
+		// If this read happens during an effect or computation, link it to this value
+		trackDependency(getCurrentContext(), accessor as SignalValue<T>);
+
+		return value;
+	};
+
+	/**
+	 * Returns the computed value without tracking it
+	 * A stale value is re-evaluated first
+	 */
+	const peek = () => {
+		tryRefresh();
+		return value;
+	};
+
+	/**
+	 * Disposes the computed value and releases its dependencies
+	 */
+	const cleanup = () => {
+		isDisposed = true;
+		observer._disposed = true;
+		runCleanups?.();
+		unsubscribeDependencies(observer, ctx);
+		ctx.computeds.delete(accessor as SignalValue<unknown>);
+		scope?._remove(cleanup);
 	};
 
 	// Add metadata and cleanup method to the accessor function
 	Object.defineProperties(accessor, {
 		_isComputed: { value: true },
 		_name: { value: name },
-		_cleanup: {
-			value: () => {
-				isDisposed = true;
-				cleanup();
-			},
-		},
+		_deps: { get: () => subscribers },
+		_refresh: { value: tryRefresh },
+		peek: { value: peek },
+		subscribe: { value: createSubscribe(ctx, accessor, name || "computed") },
+		_observer: { value: observer },
+		_cleanup: { value: cleanup },
 	});
 
+	if (write) {
+		/**
+		 * Routes a written value to the setter
+		 * The writes it makes are batched, and reads are not tracked by a running effect
+		 */
+		const setter = (newValue: T) => {
+			if (isDisposed) {
+				console.warn(
+					`Write to disposed computed ignored: "${name || "unnamed"}"`,
+				);
+				return;
+			}
+			withContextState(ctx, () =>
+				batch(() => untracked(() => write(newValue))),
+			);
+		};
+
+		/**
+		 * Writes a value derived from the current value
+		 */
+		const updater = (updateFn: (currentValue: T) => T) => {
+			setter(updateFn(peek()));
+		};
+
+		Object.defineProperties(accessor, {
+			set: { value: setter },
+			update: { value: updater },
+		});
+	}
+
+	// Computed values created in a disposed context are never evaluated
+	if (ctx.disposed) {
+		console.warn(
+			`Computed created in disposed context ignored: "${name || "unnamed"}"`,
+		);
+		isDisposed = true;
+		observer._disposed = true;
+		ctx.effectDependencies.delete(observer);
+		return accessor as SignalValue<T>;
+	}
+
+	// Register with the context and the scope so disposing either disposes this value
+	ctx.computeds.add(accessor as SignalValue<unknown>);
+	scope?._add(cleanup);
+
+	// Initial evaluation to establish dependencies
+	observer();
+
 	return accessor as SignalValue<T>;
 }
@@ -1,5 +1,5 @@
 import { createReactiveContext } from "../context";
-import type { ReactiveContext } from "../types";
+import type { ContextOptions, ReactiveContext } from "../types";
 import { batch } from "./batch";
 import { computed } from "./computed";
 import { effect } from "./effect";
@@ -9,15 +9,22 @@ import { untracked } from "./untracked";
 /**
  * Creates a reactive context with injected dependencies.
  *
+ * @param options - Optional configuration options
  * @returns A new reactive context.
  */
-export function createContext(): ReactiveContext {
+export function createContext(options?: ContextOptions): ReactiveContext {
 	// Create context with all dependencies injected
-	return createReactiveContext({
+	const context = createReactiveContext({
 		signal,
 		effect,
 		computed,
 		batch,
 		untracked,
 	});
+
+	if (options?.flush) {
+		context.setFlushStrategy(options.flush);
+	}
+
+	return context;
 }
@@ -1,7 +1,24 @@
-import { getCurrentContext } from "../context";
-import type { ContextState, EffectFn, EffectOptions } from "../types";
-import { setActiveTracker } from "../utils";
+import { getCurrentContext, withContextState } from "../context";
+import type {
+	ContextState,
+	EffectCallback,
+	EffectFn,
+	EffectOptions,
+	OnCleanup,
+} from "../types";
+import {
+	CLEAN,
+	elapsedSince,
+	emitHook,
+	isInstrumented,
+	isStale,
+	setActiveTracker,
+	startTiming,
+	takeCauses,
+} from "../utils";
 import { unsubscribeDependencies } from "../utils/dependency";
+import { createRunCleanups, withCleanups } from "./cleanup";
+import { getCurrentScope, withScope } from "./scope";
 
 /**
  * Creates an effect that runs when its dependencies change.
@@ -12,23 +29,50 @@ import { unsubscribeDependencies } from "../utils/dependency";
  * @param options - Optional configuration for the effect behavior
  * @returns A dispose function that can be called to clean up the effect
  */
-export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
+export function effect(fn: EffectCallback, options?: EffectOptions): EffectFn {
 	const ctx = getCurrentContext();
-	const { name, scheduler, once, debounce, onError, onCleanup } = options || {};
+	const scope = getCurrentScope();
+	const {
+		name,
+		scheduler,
+		once,
+		debounce,
+		maxWait,
+		throttle,
+		onError,
+		onCleanup,
+	} = options || {};
+	const throttleOptions =
+		typeof throttle === "number" ? { wait: throttle } : throttle;
 
 	// Store user's cleanup function if provided
-	let userCleanup: (() => void) | undefined = onCleanup;
+	const userCleanup: (() => void) | undefined = onCleanup;
 
-	// For debouncing
+	// Cleanups registered with onCleanup during the latest run
+	let runCleanups: (() => void) | undefined;
+
+	// For debouncing and throttling
 	let timeoutId: ReturnType<typeof setTimeout> | undefined;
 	let isFirstRun = true;
 
+	// When the current burst of debounced updates started, for maxWait
+	let burstStart: number | undefined;
+
+	// Whether a throttled update waits for the end of the current window
+	let hasTrailingRun = false;
+
+	// Functions cancelling the runs queued with the scheduler
+	const scheduledRuns = new Map<() => void, () => void>();
+
 	/**
 	 * Schedules effect execution using the provided scheduler or runs it directly
 	 */
 	const scheduleRun = (runFn: () => void) => {
 		if (scheduler) {
-			scheduler(runFn);
+			const cancel = scheduler(runFn);
+			if (typeof cancel === "function") {
+				scheduledRuns.set(runFn, cancel as () => void);
+			}
 		} else {
 			runFn();
 		}
@@ -38,11 +82,17 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 	 * Manages debouncing and schedules the effect's execution
 	 */
 	const handleEffectScheduling = () => {
+		// Runs requested while the scope is paused wait for it to resume
+		if (scope?.paused && !observer._disposed) {
+			scope._defer(handleEffectScheduling);
+			return;
+		}
+
 		const skipWhen = [
 			observer._disposed,
 			detectCircularDependency(),
 			shouldSkipOnceEffect(),
-			shouldDebounce(),
+			shouldDebounce() || shouldThrottle(),
 		];
 
 		if (skipWhen.some(Boolean)) {
@@ -83,18 +133,83 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 	const shouldDebounce = (): boolean => {
 		if (debounce && debounce > 0 && !isFirstRun) {
 			clearTimeout(timeoutId);
-			timeoutId = setTimeout(() => scheduleRun(executeEffectCore), debounce);
+
+			// maxWait bounds how long a burst of updates can keep delaying the run
+			const now = Date.now();
+			burstStart ??= now;
+			const delay =
+				maxWait && maxWait > 0
+					? Math.min(debounce, burstStart + maxWait - now)
+					: debounce;
+
+			timeoutId = setTimeout(
+				() => {
+					timeoutId = undefined;
+					burstStart = undefined;
+					scheduleRun(executeEffectCore);
+				},
+				Math.max(0, delay),
+			);
 			return true;
 		}
 		return false;
 	};
 
+	/**
+	 * Handles throttling logic and returns whether execution should be deferred
+	 */
+	const shouldThrottle = (): boolean => {
+		if (!throttleOptions || !(throttleOptions.wait > 0) || isFirstRun) {
+			return false;
+		}
+
+		// Updates during a window run once it ends
+		if (timeoutId !== undefined) {
+			hasTrailingRun = true;
+			return true;
+		}
+
+		startThrottleWindow(throttleOptions.wait);
+		if (throttleOptions.leading !== false) return false;
+
+		hasTrailingRun = true;
+		return true;
+	};
+
+	/**
+	 * Starts a throttle window, running the trailing update when it ends
+	 */
+	const startThrottleWindow = (wait: number) => {
+		timeoutId = setTimeout(() => {
+			timeoutId = undefined;
+			if (!hasTrailingRun) return;
+
+			hasTrailingRun = false;
+			if (throttleOptions?.trailing !== false) {
+				// A trailing run opens a new window, keeping the rate bounded
+				startThrottleWindow(wait);
+				scheduleRun(executeEffectCore);
+			}
+		}, wait);
+	};
+
 	/**
 	 * Core function to execute the effect with proper tracking setup
 	 */
 	const executeEffectCore = () => {
+		// Report the changes that caused this run when tracing
+		const causes = takeCauses(observer);
+		ctx.tracing?.onRun(observer, causes);
+
+		// Clean up after the previous run
+		runCleanups?.();
+
 		// Remove prior subscriptions
-		unsubscribeDependencies(observer);
+		unsubscribeDependencies(observer, ctx);
+
+		// Collect cleanups registered during this run
+		const cleanups = createRunCleanups("effect");
+		runCleanups = cleanups.run;
 
 		// Establish tracking context
 		const previousTracker = ctx.activeTracker;
@@ -106,9 +221,16 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 		setActiveTracker(ctx, observer);
 		ctx.executionContext.push(observer);
 
+		const startTime = startTiming(ctx);
+
 		try {
-			const result = fn() as void | Promise<void> | (() => void);
-			handleEffectResult(result);
+			// Run inside the effect's own context and scope so nested primitives belong to them
+			const result = withScope(scope, () =>
+				withContextState(ctx, () =>
+					withCleanups(cleanups.add, () => fn(cleanups.add)),
+				),
+			) as void | Promise<void> | (() => void);
+			handleEffectResult(result, cleanups.add);
 		} catch (error) {
 			handleEffectError(error);
 		} finally {
@@ -116,16 +238,26 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 			ctx.executionContext.pop();
 			setActiveTracker(ctx, previousTracker);
 			ctx.currentExecutingEffect = previousParentEffect;
+
+			if (isInstrumented(ctx)) {
+				emitHook(ctx, "onEffectRun", {
+					effect: disposeEffect,
+					duration: elapsedSince(startTime),
+				});
+			}
 		}
 	};
 
 	/**
 	 * Handles the result returned by the effect function
 	 */
-	const handleEffectResult = (result: void | Promise<void> | (() => void)) => {
-		// Handle the case where the effect returns a cleanup function
+	const handleEffectResult = (
+		result: void | Promise<void> | (() => void),
+		addCleanup: OnCleanup,
+	) => {
+		// A returned cleanup function runs before the next run and on dispose, like onCleanup
 		if (typeof result === "function") {
-			userCleanup = result;
+			addCleanup(result);
 		}
 		// Handle async functions that return promises
 		else if (result instanceof Promise) {
@@ -152,7 +284,14 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 	};
 
 	// Create an observer function
-	const observer: EffectFn = () => handleEffectScheduling();
+	// Runs are skipped when none of the computed dependencies produced a new value
+	const observer: EffectFn = () => {
+		const shouldRun = isStale(ctx, observer);
+		observer._state = CLEAN;
+		if (shouldRun) {
+			handleEffectScheduling();
+		}
+	};
 
 	// Attach metadata to the observer
 	Object.defineProperties(observer, {
@@ -160,6 +299,9 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 		_hasRun: { value: false, writable: true },
 		_priority: { value: options?.priority },
 		_disposed: { value: false, writable: true },
+		_state: { value: CLEAN, writable: true },
+		_handle: { get: () => disposeEffect },
+		_sources: { get: () => ctx.effectDependencies.get(observer) },
 	});
 
 	// Create dependency tracking set in context
@@ -169,28 +311,41 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 	 * Handles cleanup of all resources associated with the effect
 	 */
 	const disposeEffect = () => {
-		// Cancel any pending debounced execution
+		if (observer._disposed) return;
+
+		// Cancel any pending debounced or throttled execution
 		if (timeoutId) {
 			clearTimeout(timeoutId);
 			timeoutId = undefined;
 		}
 
+		// Cancel runs queued with the scheduler
+		for (const cancel of scheduledRuns.values()) {
+			cancel();
+		}
+		scheduledRuns.clear();
+
 		// Mark as disposed immediately to prevent any future executions
 		observer._disposed = true;
 
 		// Dispose all child effects first
 		disposeChildEffects();
 
-		// Run user cleanup if provided
+		// Run cleanups registered during the latest run, then user cleanup if provided
+		runCleanups?.();
 		runUserCleanup();
 
 		// Remove from pending notifications if it's queued
 		removeFromPendingQueue();
 
 		// Clean up all dependencies and registries
-		unsubscribeDependencies(observer);
+		unsubscribeDependencies(observer, ctx);
 		ctx.pendingRegistry.delete(observer);
 		ctx.effectDependencies.delete(observer);
+		ctx.effects.delete(disposeEffect);
+		scope?._remove(disposeEffect);
+
+		emitHook(ctx, "onEffectDispose", { effect: disposeEffect });
 	};
 
 	/**
@@ -237,17 +392,28 @@ export function effect(fn: EffectFn, options?: EffectOptions): EffectFn {
 	Object.defineProperties(disposeEffect, {
 		_name: { value: name },
 		_effect: { value: observer },
+		_hasPendingTimer: { get: () => timeoutId !== undefined },
+		_owner: { value: ctx.currentExecutingEffect ?? undefined },
+		_children: { get: () => ctx.parentChildEffectsMap.get(disposeEffect) },
 	});
 
-	// Register parent-child relationship for automatic cleanup
+	// Effects created in a disposed context never run
+	if (ctx.disposed) {
+		console.warn(
+			`Effect created in disposed context ignored: "${name || "unnamed"}"`,
+		);
+		observer._disposed = true;
+		ctx.effectDependencies.delete(observer);
+		return disposeEffect;
+	}
+
+	// Register with the context, the scope and the parent effect for automatic cleanup
+	ctx.effects.add(disposeEffect);
+	scope?._add(disposeEffect);
 	registerParentChildRelationship(ctx, disposeEffect);
 
-	// Handle custom scheduling or immediate execution
-	if (scheduler) {
-		scheduler(observer);
-	} else {
-		observer(); // Initial execution
-	}
+	// Initial execution, handed to the scheduler if any
+	observer();
 
 	// Return cleanup function
 	return disposeEffect;
@@ -0,0 +1,44 @@
+import type { ReadonlySignal, Signal, SignalValue } from "../types";
+
+/**
+ * Checks whether a value is a signal created with `signal`.
+ * Computed values and read-only views are not signals.
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a writable signal
+ */
+export function isSignal(value: unknown): value is Signal<unknown> {
+	return (
+		typeof value === "function" &&
+		"_deps" in value &&
+		!isComputed(value) &&
+		!isReadonly(value)
+	);
+}
+
+/**
+ * Checks whether a value is a computed value, read-only or writable.
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a computed value
+ */
+export function isComputed(value: unknown): value is SignalValue<unknown> {
+	return (
+		typeof value === "function" &&
+		"_deps" in value &&
+		(value as Partial<SignalValue<unknown>>)._isComputed === true
+	);
+}
+
+/**
+ * Checks whether a value is a read-only view created with `readonly`.
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a read-only view
+ */
+export function isReadonly(value: unknown): value is ReadonlySignal<unknown> {
+	return (
+		typeof value === "function" &&
+		(value as Partial<ReadonlySignal<unknown>>)._isReadonly === true
+	);
+}
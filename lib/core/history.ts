@@ -0,0 +1,216 @@
+import {
+	getContextState,
+	getCurrentContext,
+	getDefaultContext,
+	withContextState,
+} from "../context";
+import type {
+	ContextState,
+	HistoryChange,
+	HistoryEntry,
+	HistoryOptions,
+	ReactiveContext,
+	Signal,
+	SignalHistory,
+	TimeTravel,
+} from "../types";
+import { addListeners, isNode } from "../utils";
+import { batch } from "./batch";
+import { signal } from "./signal";
+
+// Signals holding the state of histories, which are never recorded
+const historySignals = new WeakSet<object>();
+
+/**
+ * Records the writes made to a signal so that they can be undone and redone.
+ * Writes made within one batch are grouped into a single entry.
+ *
+ * The history observes the context the signal belongs to.
+ *
+ * @template T - The type of the signal value
+ * @param source - The signal to record
+ * @param options - Optional configuration options
+ * @returns The history of the signal
+ */
+export function withHistory<T>(
+	source: Signal<T>,
+	options?: HistoryOptions,
+): SignalHistory<T> {
+	const recorder = createRecorder(
+		source._ctx ?? getCurrentContext(),
+		(written) => written === source,
+		options,
+	);
+
+	return {
+		signal: source,
+		undo: recorder.undo,
+		redo: recorder.redo,
+		canUndo: recorder.canUndo,
+		canRedo: recorder.canRedo,
+		clear: recorder.clear,
+		dispose: recorder.dispose,
+	};
+}
+
+/**
+ * Records the writes made to every signal of a context, to move back and forth between snapshots.
+ * Writes made within one batch are grouped into a single entry.
+ *
+ * Only signal values are restored. Stores and collections keep their state outside of signals.
+ *
+ * @param context - The context to record, the default context if omitted
+ * @param options - Optional configuration options
+ * @returns The time-travel recorder
+ */
+export function enableTimeTravel(
+	context: ReactiveContext = getDefaultContext(),
+	options?: HistoryOptions,
+): TimeTravel {
+	return createRecorder(getContextState(context), () => true, options);
+}
+
+/**
+ * Creates a recorder of the writes made to the signals of a context accepted by a filter
+ */
+function createRecorder(
+	state: ContextState,
+	filter: (written: Signal<unknown>) => boolean,
+	options?: HistoryOptions,
+): TimeTravel {
+	const { limit = 100 } = options || {};
+
+	const entries: HistoryEntry[] = [];
+
+	// The number of entries currently applied, entries after it have been undone
+	let position = 0;
+
+	// The changes of the batch in progress, by signal
+	let pending: Map<Signal<unknown>, HistoryChange> | undefined;
+
+	// Writes made while undoing and redoing are not recorded
+	let isApplying = false;
+
+	// Notifies readers of the reactive state of the recorder
+	const version = withContextState(state, () => signal(0));
+	historySignals.add(version);
+
+	const notify = () => version.update((n) => n + 1);
+
+	/**
+	 * Adds an entry, dropping undone entries and the oldest entry past the limit
+	 */
+	const commit = (changes: HistoryChange[]) => {
+		entries.splice(position);
+		entries.push({ changes });
+		if (entries.length > limit) {
+			entries.shift();
+		}
+		position = entries.length;
+		notify();
+	};
+
+	/**
+	 * Reverts or re-applies entries until the given number of entries is applied
+	 * Values are put back as recorded, without running validators, onSet or equality checks
+	 */
+	const goTo = (target: number) => {
+		const next = Math.max(0, Math.min(target, entries.length));
+		if (next === position) return;
+
+		isApplying = true;
+		try {
+			withContextState(state, () =>
+				batch(() => {
+					while (position > next) {
+						position--;
+						const changes = entries[position].changes;
+						for (let i = changes.length - 1; i >= 0; i--) {
+							changes[i].signal._restore(changes[i].oldValue);
+						}
+					}
+					while (position < next) {
+						for (const change of entries[position].changes) {
+							change.signal._restore(change.newValue);
+						}
+						position++;
+					}
+				}),
+			);
+		} finally {
+			isApplying = false;
+		}
+		notify();
+	};
+
+	const removeListeners = addListeners(state, {
+		onSignalWrite({ signal: written, oldValue, newValue }) {
+			if (
+				isApplying ||
+				historySignals.has(written) ||
+				isNode(written) ||
+				!filter(written)
+			) {
+				return;
+			}
+
+			// Writes made within a batch are grouped when it ends
+			if (state.batchDepth > 0) {
+				pending ??= new Map();
+				const change = pending.get(written);
+				if (change) {
+					change.newValue = newValue;
+				} else {
+					pending.set(written, { signal: written, oldValue, newValue });
+				}
+				return;
+			}
+
+			commit([{ signal: written, oldValue, newValue }]);
+		},
+		onBatchEnd({ depth }) {
+			if (depth > 0 || !pending) return;
+
+			// Signals set back to their value before the batch did not change
+			const changes = [...pending.values()].filter(
+				(change) => !Object.is(change.oldValue, change.newValue),
+			);
+			pending = undefined;
+			if (changes.length > 0) commit(changes);
+		},
+	});
+
+	return {
+		undo: () => goTo(position - 1),
+		redo: () => goTo(position + 1),
+		goTo,
+		canUndo: () => {
+			version();
+			return position > 0;
+		},
+		canRedo: () => {
+			version();
+			return position < entries.length;
+		},
+		position: () => {
+			version();
+			return position;
+		},
+		entries: () => {
+			version();
+			return entries.map((entry) => ({
+				changes: entry.changes.map((change) => ({ ...change })),
+			}));
+		},
+		clear: () => {
+			entries.length = 0;
+			position = 0;
+			pending = undefined;
+			notify();
+		},
+		dispose: () => {
+			removeListeners();
+			pending = undefined;
+		},
+	};
+}
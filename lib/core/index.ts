@@ -1,6 +1,17 @@
 export * from "./batch";
+export * from "./cleanup";
+export * from "./collections";
 export * from "./computed";
 export * from "./context";
 export * from "./untracked";
+export * from "./watch";
 export * from "./effect";
+export * from "./guards";
+export * from "./history";
+export * from "./readonly";
+export * from "./resource";
+export * from "./scheduler";
+export * from "./scope";
 export * from "./signal";
+export * from "./store";
+export * from "./transaction";
@@ -0,0 +1,47 @@
+import type {
+	ReadonlySignal,
+	Signal,
+	SignalBase,
+	SignalValue,
+	Subscribe,
+} from "../types";
+import { isReadonly } from "./guards";
+
+// Views already created, so a signal always has the same read-only view
+const views = new WeakMap<SignalBase, ReadonlySignal<unknown>>();
+
+/**
+ * Creates a read-only view of a signal or computed value.
+ * Reading the view tracks the original, but the view has no `set` or `update` method,
+ * so it can be handed to consumers that should only read the value.
+ *
+ * @template T - The type of the signal value
+ * @param source - The signal or computed value to expose
+ * @returns The read-only view, the same view for every call with the same source
+ */
+export function readonly<T>(
+	source: Signal<T> | SignalValue<T> | ReadonlySignal<T>,
+): ReadonlySignal<T> {
+	if (isReadonly(source)) return source;
+
+	const existing = views.get(source);
+	if (existing) return existing as ReadonlySignal<T>;
+
+	const view = () => source();
+	const subscribe: Subscribe<T> = (listener, options) =>
+		source.subscribe(listener, options);
+
+	Object.defineProperties(view, {
+		peek: { value: () => source.peek() },
+		subscribe: { value: subscribe },
+		_deps: { get: () => source._deps },
+		_isReadonly: { value: true },
+		_name: { get: () => (source as { _name?: string })._name },
+	});
+
+	// Mutators can't be attached to the view afterwards
+	Object.freeze(view);
+
+	views.set(source, view as ReadonlySignal<unknown>);
+	return view as ReadonlySignal<T>;
+}
@@ -0,0 +1,141 @@
+import type { Resource, ResourceFetcher, ResourceOptions } from "../types";
+import { batch } from "./batch";
+import { effect } from "./effect";
+import { signal } from "./signal";
+import { untracked } from "./untracked";
+
+/**
+ * Creates a resource that derives state from a Promise.
+ * The fetcher runs whenever the source changes, and the latest result is exposed
+ * through `value`, `loading` and `error` signals. Requests that become stale are
+ * aborted through their `AbortSignal` and their results are ignored.
+ *
+ * A source returning `undefined`, `null` or `false` skips fetching.
+ *
+ * @template S - The type of the source value
+ * @template T - The type of the loaded value
+ * @param source - Reactive function returning the value passed to the fetcher
+ * @param fetcher - Function loading the value for a source value
+ * @param options - Optional configuration options
+ * @returns The resource state and controls
+ */
+export function resource<S, T>(
+	source: () => S | false | null | undefined,
+	fetcher: ResourceFetcher<S, T>,
+	options?: ResourceOptions<T>,
+): Resource<T> {
+	const { name, initialValue, keepPrevious = false, onError } = options || {};
+
+	// Reactive state exposed to consumers
+	const value = signal<T | undefined>(initialValue, {
+		name: name && `${name}_value`,
+	});
+	const loading = signal(false, { name: name && `${name}_loading` });
+	const error = signal<Error | undefined>(undefined, {
+		name: name && `${name}_error`,
+	});
+
+	// Controller of the request in flight
+	let controller: AbortController | undefined;
+
+	// Whether a request resolved, the initial value is kept until then
+	let hasResolved = false;
+
+	/**
+	 * Aborts the request in flight, if any
+	 */
+	const abort = () => {
+		controller?.abort();
+		controller = undefined;
+	};
+
+	/**
+	 * Standardized error handling for failed requests
+	 */
+	const handleError = (reason: unknown) => {
+		const err = reason instanceof Error ? reason : new Error(String(reason));
+		batch(() => {
+			error.set(err);
+			loading.set(false);
+		});
+
+		if (onError) {
+			onError(err);
+		} else {
+			console.error("Error in resource:", name || "unnamed", err);
+		}
+	};
+
+	/**
+	 * Starts a request for the given source value, cancelling the previous one
+	 */
+	const load = async (
+		sourceValue: S | false | null | undefined,
+		refetching: boolean,
+	): Promise<T | undefined> => {
+		abort();
+
+		if (
+			sourceValue === undefined ||
+			sourceValue === null ||
+			sourceValue === false
+		) {
+			loading.set(false);
+			return undefined;
+		}
+
+		const current = new AbortController();
+		controller = current;
+		const previous = value.peek();
+
+		batch(() => {
+			loading.set(true);
+			error.set(undefined);
+			if (!keepPrevious && hasResolved) {
+				value.set(undefined);
+			}
+		});
+
+		try {
+			const result = await fetcher(sourceValue, {
+				signal: current.signal,
+				previous,
+				refetching,
+			});
+
+			// Ignore results of requests that became stale
+			if (current.signal.aborted) return undefined;
+
+			controller = undefined;
+			hasResolved = true;
+			batch(() => {
+				value.set(result);
+				loading.set(false);
+			});
+			return result;
+		} catch (reason) {
+			if (current.signal.aborted) return undefined;
+
+			controller = undefined;
+			handleError(reason);
+			return undefined;
+		}
+	};
+
+	// Track the source and load whenever it changes
+	const disposeEffect = effect(
+		() => {
+			const sourceValue = source();
+			untracked(() => load(sourceValue, false));
+		},
+		{ name: `${name || "resource"}_loader`, onCleanup: abort },
+	);
+
+	return {
+		value,
+		loading,
+		error,
+		refetch: () => load(untracked(source), true),
+		dispose: disposeEffect,
+	};
+}
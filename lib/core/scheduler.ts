@@ -0,0 +1,123 @@
+import type { IdleSchedulerOptions, Scheduler } from "../types";
+
+/**
+ * Requests a flush of the queued runs and returns a function cancelling the request
+ */
+type FlushRequest = (flush: () => void) => () => void;
+
+/**
+ * Creates a scheduler running queued effects in a microtask.
+ * Falls back to a resolved promise in runtimes without `queueMicrotask`.
+ *
+ * @returns The scheduler
+ */
+export function microtaskScheduler(): Scheduler {
+	return createScheduler((flush) => {
+		let cancelled = false;
+		const run = () => {
+			if (!cancelled) flush();
+		};
+
+		if (typeof queueMicrotask === "function") {
+			queueMicrotask(run);
+		} else {
+			Promise.resolve().then(run);
+		}
+		return () => {
+			cancelled = true;
+		};
+	});
+}
+
+/**
+ * Creates a scheduler running queued effects before the next repaint.
+ * Falls back to a 16ms timeout in runtimes without `requestAnimationFrame`, such as Bun and Node.
+ *
+ * @returns The scheduler
+ */
+export function rafScheduler(): Scheduler {
+	return createScheduler((flush) => {
+		if (typeof requestAnimationFrame === "function") {
+			const id = requestAnimationFrame(() => flush());
+			return () => cancelAnimationFrame(id);
+		}
+		return requestTimeout(flush, 16);
+	});
+}
+
+/**
+ * Creates a scheduler running queued effects when the runtime is idle.
+ * Falls back to a timeout in runtimes without `requestIdleCallback`, such as Safari, Bun and Node.
+ *
+ * @param options - Optional configuration options
+ * @returns The scheduler
+ */
+export function idleScheduler(options?: IdleSchedulerOptions): Scheduler {
+	const { timeout } = options || {};
+
+	return createScheduler((flush) => {
+		if (typeof requestIdleCallback === "function") {
+			const id = requestIdleCallback(() => flush(), { timeout });
+			return () => cancelIdleCallback(id);
+		}
+		return requestTimeout(flush, 1);
+	});
+}
+
+/**
+ * Creates a scheduler running queued effects after a delay.
+ *
+ * @param ms - The delay in milliseconds
+ * @returns The scheduler
+ */
+export function timeoutScheduler(ms: number): Scheduler {
+	return createScheduler((flush) => requestTimeout(flush, ms));
+}
+
+/**
+ * Creates a scheduler queueing runs until a flush is requested.
+ * Runs scheduled before the flush are coalesced, each queued run executes once,
+ * and every effect sharing the scheduler runs in the same flush.
+ */
+function createScheduler(request: FlushRequest): Scheduler {
+	const queue = new Set<() => void>();
+	let cancelRequest: (() => void) | undefined;
+
+	/**
+	 * Executes the queued runs, including runs queued by them in the next flush
+	 */
+	const flush = () => {
+		cancelRequest = undefined;
+		const runs = [...queue];
+		queue.clear();
+
+		for (const run of runs) {
+			try {
+				run();
+			} catch (error) {
+				console.error("Error in scheduled run:", error);
+			}
+		}
+	};
+
+	return (run) => {
+		queue.add(run);
+		cancelRequest ??= request(flush);
+
+		return () => {
+			queue.delete(run);
+			if (queue.size === 0 && cancelRequest) {
+				cancelRequest();
+				cancelRequest = undefined;
+			}
+		};
+	};
+}
+
+/**
+ * Requests a flush after a delay
+ */
+function requestTimeout(flush: () => void, ms: number): () => void {
+	const id = setTimeout(flush, ms);
+	return () => clearTimeout(id);
+}
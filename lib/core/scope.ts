@@ -0,0 +1,142 @@
+import type { EffectScope } from "../types";
+
+// Track the scope collecting newly created effects and computed values
+let activeScope: EffectScope | undefined;
+
+/**
+ * Creates a scope that collects every effect, computed value and nested scope created
+ * while running inside it, so they can be disposed as a unit.
+ * Effects keep the scope they were created in, so effects created when they re-run are collected too.
+ *
+ * @param detached - If true, the scope is not collected by the currently active scope
+ * @returns The effect scope
+ */
+export function effectScope(detached = false): EffectScope {
+	const parent = detached ? undefined : activeScope;
+
+	// Dispose functions of collected effects, computed values, nested scopes and callbacks
+	const disposers = new Set<() => void>();
+
+	// Effect runs requested while the scope was paused
+	const deferred = new Set<() => void>();
+
+	let active = true;
+	let paused = parent?.paused ?? false;
+
+	const scope: EffectScope = {
+		run<T>(fn: () => T): T | undefined {
+			if (!active) {
+				console.warn("Cannot run an inactive effect scope");
+				return undefined;
+			}
+			return withScope(scope, fn);
+		},
+		stop() {
+			if (!active) return;
+			active = false;
+
+			for (const dispose of [...disposers]) {
+				try {
+					dispose();
+				} catch (error) {
+					console.error("Error in effect scope cleanup:", error);
+				}
+			}
+
+			disposers.clear();
+			deferred.clear();
+			scope._scopes.clear();
+
+			if (parent) {
+				parent._remove(scope.stop);
+				parent._scopes.delete(scope);
+			}
+		},
+		pause() {
+			if (!active) return;
+			paused = true;
+			for (const child of scope._scopes) {
+				child.pause();
+			}
+		},
+		resume() {
+			if (!active || !paused) return;
+			paused = false;
+			for (const child of scope._scopes) {
+				child.resume();
+			}
+
+			// Run each effect notified while paused once
+			const runs = [...deferred];
+			deferred.clear();
+			for (const run of runs) {
+				run();
+			}
+		},
+		get active() {
+			return active;
+		},
+		get paused() {
+			return paused;
+		},
+		_add(dispose) {
+			if (active) disposers.add(dispose);
+		},
+		_remove(dispose) {
+			disposers.delete(dispose);
+		},
+		_defer(run) {
+			deferred.add(run);
+		},
+		_scopes: new Set(),
+	};
+
+	// Nested scopes are stopped, paused and resumed with their parent
+	if (parent?.active) {
+		parent._add(scope.stop);
+		parent._scopes.add(scope);
+	}
+
+	return scope;
+}
+
+/**
+ * Returns the currently active effect scope, if any.
+ *
+ * @returns The active effect scope or undefined
+ */
+export function getCurrentScope(): EffectScope | undefined {
+	return activeScope;
+}
+
+/**
+ * Registers a callback that runs when the currently active effect scope is stopped.
+ *
+ * @param fn - The callback to run on stop
+ */
+export function onScopeDispose(fn: () => void): void {
+	if (activeScope) {
+		activeScope._add(fn);
+	} else {
+		console.warn("onScopeDispose called without an active effect scope");
+	}
+}
+
+/**
+ * @internal
+ * Runs a function with the given scope as the active scope.
+ * Used by effects and computed values to re-enter the scope they were created in.
+ *
+ * @param scope - The scope to activate, or undefined for none
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function withScope<T>(scope: EffectScope | undefined, fn: () => T): T {
+	const previousScope = activeScope;
+	activeScope = scope;
+	try {
+		return fn();
+	} finally {
+		activeScope = previousScope;
+	}
+}
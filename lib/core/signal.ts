@@ -1,6 +1,15 @@
 import { getCurrentContext } from "../context";
 import type { EffectFn, Signal, SignalOptions } from "../types";
-import { getActiveTracker, queueEffects } from "../utils";
+import {
+	DIRTY,
+	emitHook,
+	markSubscribers,
+	queueEffects,
+	recordChange,
+	strictEqual,
+	trackDependency,
+} from "../utils";
+import { createSubscribe } from "./subscribe";
 
 /**
  * Creates a new signal with the given initial value and options.
@@ -20,7 +29,7 @@ export function signal<T>(
 	const ctx = getCurrentContext();
 
 	// Extract options with defaults
-	const { name, validators = [] } = options || {};
+	const { name, validators = [], equals = strictEqual } = options || {};
 
 	// Store the current value in a local variable instead of reusing the parameter
 	let value = initialValue;
@@ -28,25 +37,17 @@ export function signal<T>(
 	// Track effects that depend on this signal using WeakRefs to avoid memory leaks
 	const subscribers = new Set<WeakRef<EffectFn>>();
 
+	// The method of the write in progress, recorded when tracing
+	let writeMethod: "set" | "update" = "set";
+
 	/**
 	 * The core signal function that both reads the value and tracks dependencies
 	 * This function is called when consumers access the signal value: signal()
 	 */
 	const signalFn = (() => {
-		// Check if this read is happening during an effect execution
-		const activeEffect = getActiveTracker(ctx);
-
-		// If so, establish bidirectional links between effect and signal
-		if (activeEffect) {
-			// Get/create the set of signals this effect depends on
-			const effectDeps = ctx.effectDependencies.get(activeEffect) || new Set();
-			// Add this effect as a subscriber to the signal
-			subscribers.add(new WeakRef(activeEffect));
-			// Add this signal to the effect's dependencies
-			effectDeps.add(signalFn);
-			// Update the context's effect dependencies map
-			ctx.effectDependencies.set(activeEffect, effectDeps);
-		}
+		// If this read happens during an effect execution, link the effect and the signal
+		// Tracking uses the reader's context so effects can depend on signals of other contexts
+		trackDependency(getCurrentContext(), signalFn);
 		// Simply return the current value
 		return value;
 	}) as Signal<T>;
@@ -86,7 +87,21 @@ export function signal<T>(
 	 */
 	const update = (newValue: T) => {
 		tryOnSet(newValue);
+		recordChange(ctx, subscribers, {
+			type: "write",
+			source: signalFn,
+			method: writeMethod,
+			oldValue: value,
+			newValue,
+			causes: [],
+		});
+		const oldValue = value;
 		value = newValue;
+		emitHook(ctx, "onSignalWrite", {
+			signal: signalFn as Signal<unknown>,
+			oldValue,
+			newValue,
+		});
 
 		// Schedule all dependent effects for execution
 		queueEffects(ctx, subscribers);
@@ -98,12 +113,18 @@ export function signal<T>(
 	 * @param newValue - The new value to set
 	 */
 	const setter = (newValue: T) => {
+		// Writes into a disposed context are ignored
+		if (ctx.disposed) {
+			console.warn(`Write to disposed context ignored: "${name || "unnamed"}"`);
+			return;
+		}
+
 		if (!didValidate(newValue)) {
 			return;
 		}
 
 		// Only update if the value has actually changed
-		if (newValue !== value) {
+		if (!equals(value, newValue)) {
 			update(newValue);
 		}
 	};
@@ -115,16 +136,47 @@ export function signal<T>(
 	 */
 	const updater = (updateFn: (currentValue: T) => T) => {
 		const newValue = updateFn(value);
-		signalFn.set(newValue);
+		writeMethod = "update";
+		try {
+			signalFn.set(newValue);
+		} finally {
+			writeMethod = "set";
+		}
 	};
 
+	/**
+	 * Puts back a previous value without running onSet or validators, used by transactions and histories
+	 * Subscribers are marked stale like for a write, a rolled back transaction drops the effects it queued
+	 * @param previous - The value to put back
+	 */
+	const restore = (previous: T) => {
+		const oldValue = value;
+		value = previous;
+		emitHook(ctx, "onSignalWrite", {
+			signal: signalFn as Signal<unknown>,
+			oldValue,
+			newValue: previous,
+		});
+		markSubscribers(ctx, subscribers, DIRTY);
+	};
+
+	// Register with the context the signal belongs to
+	ctx.signals.add(signalFn);
+
 	// Attach methods and properties to the signal function
 	Object.defineProperties(signalFn, {
 		_name: { value: name }, // Name for debugging
 		_deps: { get: () => subscribers }, // Access to subscribers for debugging/tooling
+		_disposed: { get: () => ctx.disposed }, // Writes are ignored once the context is disposed
+		_ctx: { value: ctx }, // The context the signal belongs to
 		set: { value: setter }, // Method to update the signal value
 		update: { value: updater }, // Method to update via a function
+		peek: { value: () => value }, // Reads the value without tracking
+		subscribe: { value: createSubscribe(ctx, signalFn, name || "signal") }, // Listens to changes without tracking
+		_restore: { value: restore }, // Rolls back a write without notifying
 	});
 
+	emitHook(ctx, "onSignalCreate", { signal: signalFn as Signal<unknown> });
+
 	return signalFn;
 }
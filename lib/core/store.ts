@@ -0,0 +1,305 @@
+import { getCurrentContext, withContextState } from "../context";
+import type {
+	SetStoreFunction,
+	Signal,
+	Store,
+	StoreOptions,
+	StoreUpdater,
+} from "../types";
+import { markNode } from "../utils";
+import { batch } from "./batch";
+import { signal } from "./signal";
+import { untracked } from "./untracked";
+
+// Key used by store proxies to expose the object they wrap
+const RAW = Symbol("store.raw");
+
+// Key of the node tracking the addition and removal of properties
+const KEYS = Symbol("store.keys");
+
+// Depth of setStore and produce calls allowed to write through store proxies
+let writeDepth = 0;
+
+/**
+ * Creates a deep reactive store from a plain object.
+ * Nested objects and arrays are wrapped in proxies on read, and every property is tracked
+ * on its own, so effects only re-run when a property they read changes.
+ * Reading `Object.keys`, `in` or iterating tracks the addition and removal of properties.
+ *
+ * The state is read-only, writes go through the returned setter or `produce`.
+ *
+ * @template T - The type of the store state
+ * @param initialValue - The object holding the initial state
+ * @param options - Optional configuration options
+ * @returns A tuple of the reactive state and its setter
+ */
+export function store<T extends object>(
+	initialValue: T,
+	options?: StoreOptions,
+): Store<T> {
+	const ctx = getCurrentContext();
+	const { name } = options || {};
+
+	// Proxies and property signals of every wrapped object
+	const proxies = new WeakMap<object, object>();
+	const nodes = new WeakMap<object, Map<PropertyKey, Signal<unknown>>>();
+
+	/**
+	 * Gets or lazily creates the signal tracking a property of a wrapped object
+	 */
+	const getNode = (target: object, key: PropertyKey): Signal<unknown> => {
+		let targetNodes = nodes.get(target);
+		if (!targetNodes) {
+			targetNodes = new Map();
+			nodes.set(target, targetNodes);
+		}
+
+		let node = targetNodes.get(key);
+		if (!node) {
+			const initial =
+				key === KEYS ? 0 : (target as Record<PropertyKey, unknown>)[key];
+			node = withContextState(ctx, () =>
+				markNode(
+					signal(initial, {
+						name: name && `${name}.${String(key === KEYS ? "keys" : key)}`,
+					}),
+				),
+			);
+			targetNodes.set(key, node);
+		}
+		return node;
+	};
+
+	/**
+	 * Notifies the readers of a property, if any
+	 */
+	const notify = (target: object, key: PropertyKey, value: unknown) => {
+		nodes.get(target)?.get(key)?.set(value);
+	};
+
+	/**
+	 * Notifies the readers of the keys of an object, if any
+	 */
+	const notifyKeys = (target: object) => {
+		nodes
+			.get(target)
+			?.get(KEYS)
+			?.update((version) => (version as number) + 1);
+	};
+
+	const handler: ProxyHandler<object> = {
+		get(target, key, receiver) {
+			if (key === RAW) return target;
+
+			const value = Reflect.get(target, key, receiver);
+
+			// Symbols and inherited members such as array methods are not tracked
+			if (
+				typeof key === "symbol" ||
+				(!Object.hasOwn(target, key) && key in target)
+			) {
+				return value;
+			}
+
+			getNode(target, key)();
+			return wrap(value);
+		},
+		set(target, key, value) {
+			if (writeDepth === 0) {
+				console.warn(
+					`Cannot set "${String(key)}" on a store directly, use setStore or produce`,
+				);
+				return true;
+			}
+
+			const record = target as Record<PropertyKey, unknown>;
+			const next = unwrapProxy(value);
+			const hadKey = Object.hasOwn(target, key);
+			const previousLength = Array.isArray(target) ? target.length : 0;
+
+			if (hadKey && Object.is(record[key], next)) return true;
+			record[key] = next;
+
+			batch(() => {
+				notify(target, key, next);
+
+				if (Array.isArray(target)) {
+					// Writing an index can grow the array, shrinking it removes indexes
+					if (target.length !== previousLength) {
+						notify(target, "length", target.length);
+					}
+					for (let i = target.length; i < previousLength; i++) {
+						notify(target, String(i), undefined);
+					}
+					if (target.length < previousLength) {
+						notifyKeys(target);
+					}
+				}
+
+				if (!hadKey) notifyKeys(target);
+			});
+			return true;
+		},
+		deleteProperty(target, key) {
+			if (writeDepth === 0) {
+				console.warn(
+					`Cannot delete "${String(key)}" from a store directly, use setStore or produce`,
+				);
+				return true;
+			}
+
+			if (!Object.hasOwn(target, key)) return true;
+			delete (target as Record<PropertyKey, unknown>)[key];
+
+			batch(() => {
+				notify(target, key, undefined);
+				notifyKeys(target);
+			});
+			return true;
+		},
+		has(target, key) {
+			if (key === RAW) return true;
+			if (typeof key !== "symbol") getNode(target, KEYS)();
+			return Reflect.has(target, key);
+		},
+		ownKeys(target) {
+			getNode(target, KEYS)();
+			if (Array.isArray(target)) getNode(target, "length")();
+			return Reflect.ownKeys(target);
+		},
+	};
+
+	/**
+	 * Wraps plain objects and arrays in a store proxy, reusing existing proxies
+	 */
+	const wrap = <V>(value: V): V => {
+		if (!isWrappable(value)) return value;
+
+		let proxy = proxies.get(value);
+		if (!proxy) {
+			proxy = new Proxy(value, handler);
+			proxies.set(value, proxy);
+		}
+		return proxy as V;
+	};
+
+	const state = wrap(unwrapProxy(initialValue));
+
+	/**
+	 * Writes a value at a path, merging into the root when the path is empty
+	 */
+	const setStore = ((...args: unknown[]) => {
+		const value = args.pop();
+
+		withContextState(ctx, () =>
+			batch(() =>
+				untracked(() =>
+					withWrites(() => {
+						if (args.length === 0) {
+							const next =
+								typeof value === "function"
+									? (value as StoreUpdater<T>)(state)
+									: (value as Partial<T>);
+							if (next !== state) Object.assign(state, next);
+							return;
+						}
+
+						const key = args.pop() as PropertyKey;
+						const parent = args.reduce<Record<PropertyKey, unknown>>(
+							(current, pathKey) =>
+								current[pathKey as PropertyKey] as Record<PropertyKey, unknown>,
+							state as Record<PropertyKey, unknown>,
+						);
+
+						parent[key] =
+							typeof value === "function"
+								? (value as StoreUpdater<unknown>)(parent[key])
+								: value;
+					}),
+				),
+			),
+		);
+	}) as SetStoreFunction<T>;
+
+	return [state, setStore];
+}
+
+/**
+ * Creates a store updater that applies mutations to a draft of the current value.
+ * Writes made to the draft are applied to the store in place and batched.
+ *
+ * @template T - The type of the value at the updated path
+ * @param fn - Function mutating the draft
+ * @returns An updater for `setStore`
+ */
+export function produce<T>(fn: (draft: T) => void): StoreUpdater<T> {
+	return (draft) => {
+		batch(() => withWrites(() => fn(draft)));
+		return draft;
+	};
+}
+
+/**
+ * Returns a plain deep copy of a store or of any value read from it.
+ * The copy is not reactive and reading it does not track anything.
+ *
+ * @template T - The type of the value
+ * @param value - The store state or a nested value
+ * @returns A plain snapshot of the value
+ */
+export function unwrap<T>(value: T): T {
+	return snapshot(value, new WeakMap());
+}
+
+/**
+ * Recursively copies plain objects and arrays, preserving shared and circular references
+ */
+function snapshot<T>(value: T, seen: WeakMap<object, unknown>): T {
+	const raw = unwrapProxy(value);
+	if (!isWrappable(raw)) return raw;
+
+	const existing = seen.get(raw);
+	if (existing) return existing as T;
+
+	const copy = (
+		Array.isArray(raw) ? [] : Object.create(Object.getPrototypeOf(raw))
+	) as Record<PropertyKey, unknown>;
+	seen.set(raw, copy);
+
+	for (const key of Object.keys(raw)) {
+		copy[key] = snapshot((raw as Record<PropertyKey, unknown>)[key], seen);
+	}
+	return copy as T;
+}
+
+/**
+ * Runs a function with writes through store proxies allowed
+ */
+function withWrites<T>(fn: () => T): T {
+	writeDepth++;
+	try {
+		return fn();
+	} finally {
+		writeDepth--;
+	}
+}
+
+/**
+ * Returns the object wrapped by a store proxy, or the value itself
+ */
+function unwrapProxy<T>(value: T): T {
+	if (typeof value === "object" && value !== null && RAW in value) {
+		return (value as Record<PropertyKey, unknown>)[RAW] as T;
+	}
+	return value;
+}
+
+/**
+ * Checks whether a value is a plain object or an array, the values wrapped by stores
+ */
+function isWrappable(value: unknown): value is object {
+	if (typeof value !== "object" || value === null) return false;
+	if (Array.isArray(value)) return true;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,22 @@
+import { withContextState } from "../context";
+import type { ContextState, Subscribe } from "../types";
+import { watch } from "./watch";
+
+/**
+ * Creates the subscribe method of a signal or computed value
+ * Subscriptions are watchers created in the context of the source,
+ * so they are disposed with the context and listed by introspection
+ */
+export function createSubscribe<T>(
+	ctx: ContextState,
+	source: () => T,
+	name: string,
+): Subscribe<T> {
+	return (listener, options) =>
+		withContextState(ctx, () =>
+			watch(source, (value, previous) => listener(value, previous), {
+				name: `${name}_subscriber`,
+				immediate: options?.immediate,
+			}),
+		);
+}
@@ -0,0 +1,108 @@
+import { getCurrentContext } from "../context";
+import type { ContextState, EffectFn, Signal, TransactionFn } from "../types";
+import { CLEAN, addListeners, isNode } from "../utils";
+import { batch } from "./batch";
+
+/**
+ * Runs a function as a transaction: its writes are batched, and reverted if it throws or calls `rollback`.
+ * The previous values are put back without notifying, so effects never see the reverted writes.
+ * Transactions can be nested, an inner rollback only reverts the inner writes.
+ *
+ * Transactions are synchronous: an async function throws, after reverting the writes made before its first `await`.
+ *
+ * Only signals of the current context are recorded. Stores and collections are not reverted,
+ * and effects reading them still run after a rollback.
+ *
+ * @template T - The return type of the function
+ * @param fn - The function to run, receiving the rollback function
+ * @returns The result of the function, or undefined when rolled back
+ */
+export function transaction<T>(fn: TransactionFn<T>): T | undefined {
+	const ctx = getCurrentContext();
+
+	// The value of every written signal before its first write in the transaction
+	const written = new Map<Signal<unknown>, unknown>();
+	// Store and collection nodes, whose writes are kept
+	const kept = new Set<Signal<unknown>>();
+	const removeListeners = addListeners(ctx, {
+		onSignalWrite({ signal, oldValue }) {
+			if (isNode(signal)) kept.add(signal);
+			else if (!written.has(signal)) written.set(signal, oldValue);
+		},
+	});
+
+	// Effects queued before the transaction are not affected by a rollback
+	const queued = new Set(ctx.pendingNotifications);
+
+	let rollbackError: Error | undefined;
+	const rollback = (): never => {
+		rollbackError = new Error("Transaction rolled back");
+		throw rollbackError;
+	};
+
+	return batch(() => {
+		try {
+			const result = fn(rollback);
+			// Writes made after an await can't be told apart from writes of other code
+			if (result instanceof Promise) {
+				throw new Error(
+					"Transactions can't be async, await first and write the results in the transaction",
+				);
+			}
+			return result;
+		} catch (error) {
+			restore(ctx, written, kept, queued);
+			if (error === rollbackError) return undefined;
+			throw error;
+		} finally {
+			removeListeners();
+		}
+	});
+}
+
+/**
+ * Puts back the previous values of a transaction,
+ * dropping the effects it queued that have not seen any write it keeps
+ */
+function restore(
+	ctx: ContextState,
+	written: Map<Signal<unknown>, unknown>,
+	kept: Set<Signal<unknown>>,
+	queued: Set<EffectFn>,
+): void {
+	for (const [signal, previous] of written) {
+		signal._restore(previous);
+	}
+
+	const reached = collectObservers(kept);
+	for (const observer of [...ctx.pendingNotifications]) {
+		if (queued.has(observer) || reached.has(observer)) continue;
+		if (observer._isComputed) continue;
+
+		observer._state = CLEAN;
+		ctx.pendingRegistry.delete(observer);
+		ctx.pendingNotifications.splice(
+			ctx.pendingNotifications.indexOf(observer),
+			1,
+		);
+	}
+}
+
+/**
+ * Collects the observers that depend on the given signals, directly or through computed values
+ */
+function collectObservers(signals: Set<Signal<unknown>>): Set<EffectFn> {
+	const observers = new Set<EffectFn>();
+	const visit = (subscribers: Set<WeakRef<EffectFn>>) => {
+		for (const ref of subscribers) {
+			const observer = ref.deref();
+			if (!observer || observers.has(observer)) continue;
+			observers.add(observer);
+			if (observer._isComputed && observer._deps) visit(observer._deps);
+		}
+	};
+	for (const signal of signals) {
+		visit(signal._deps);
+	}
+	return observers;
+}
@@ -0,0 +1,130 @@
+import type {
+	EffectFn,
+	WatchCallback,
+	WatchOptions,
+	WatchSource,
+	WatchSourceValues,
+} from "../types";
+import { createRunCleanups, withCleanups } from "./cleanup";
+import { effect } from "./effect";
+import { untracked } from "./untracked";
+
+/**
+ * Watches explicit sources and calls a function with the new and previous values when they change.
+ * Only the sources are tracked, the callback runs untracked and can read any signal
+ * without re-running the watcher.
+ *
+ * @template T - The type of the watched value
+ * @param source - A signal, a computed value, a getter function or a list of them
+ * @param callback - The function called with the new and previous values
+ * @param options - Optional configuration options
+ * @returns A function stopping the watcher
+ */
+export function watch<S extends WatchSource<unknown>[]>(
+	source: [...S],
+	callback: WatchCallback<WatchSourceValues<S>>,
+	options?: WatchOptions<WatchSourceValues<S>>,
+): EffectFn;
+export function watch<T>(
+	source: WatchSource<T>,
+	callback: WatchCallback<T>,
+	options?: WatchOptions<T>,
+): EffectFn;
+export function watch(
+	source: WatchSource<unknown> | WatchSource<unknown>[],
+	callback: WatchCallback<never>,
+	options?: WatchOptions<never>,
+): EffectFn {
+	const {
+		name,
+		immediate = false,
+		deep = false,
+		once = false,
+		equals,
+	} = (options || {}) as WatchOptions<unknown>;
+
+	const getter = Array.isArray(source)
+		? () => source.map((item) => item())
+		: source;
+	const isEqual = equals ?? (Array.isArray(source) ? areItemsEqual : Object.is);
+
+	let oldValue: unknown;
+	let isFirstRun = true;
+	let isDone = false;
+	let isCreating = true;
+
+	// Cleanups registered during the latest call of the callback
+	let runCleanups: (() => void) | undefined;
+
+	/**
+	 * Calls the callback, cleaning up after the previous call
+	 */
+	const invoke = (value: unknown, previous: unknown) => {
+		runCleanups?.();
+		const cleanups = createRunCleanups("watch");
+		runCleanups = cleanups.run;
+
+		withCleanups(cleanups.add, () =>
+			(callback as WatchCallback<unknown>)(value, previous, cleanups.add),
+		);
+
+		if (once) isDone = true;
+	};
+
+	const stop = effect(
+		() => {
+			const value = getter();
+			if (deep) traverse(value, new Set());
+
+			untracked(() => {
+				const previous = oldValue;
+				oldValue = value;
+
+				if (isFirstRun) {
+					isFirstRun = false;
+					if (immediate) invoke(value, undefined);
+				} else if (deep || !isEqual(value, previous)) {
+					invoke(value, previous);
+				}
+			});
+
+			// A once watcher stops after its callback, unless it was called while creating it
+			if (isDone && !isCreating) stop();
+		},
+		{ name, onCleanup: () => runCleanups?.() },
+	);
+
+	// A once watcher called immediately stops as soon as it is created
+	isCreating = false;
+	if (isDone) stop();
+
+	return stop;
+}
+
+/**
+ * Compares the values of a list of sources one by one
+ */
+function areItemsEqual(a: unknown, b: unknown): boolean {
+	const current = a as unknown[];
+	const previous = b as unknown[];
+	return current.every((item, index) => Object.is(item, previous[index]));
+}
+
+/**
+ * Reads every nested property of a value so that a deep watcher tracks them
+ */
+function traverse(value: unknown, seen: Set<unknown>): void {
+	if (typeof value !== "object" || value === null || seen.has(value)) return;
+	seen.add(value);
+
+	if (value instanceof Map || value instanceof Set) {
+		for (const item of value.values()) {
+			traverse(item, seen);
+		}
+		return;
+	}
+
+	for (const key of Object.keys(value)) {
+		traverse((value as Record<string, unknown>)[key], seen);
+	}
+}
@@ -0,0 +1,145 @@
+import { getDefaultContext } from "../context";
+import type {
+	ReactiveContext,
+	ReactiveNode,
+	SerializeGraphOptions,
+	SerializedGraph,
+} from "../types";
+import { getDependencies, listNodes } from "./introspection";
+
+/**
+ * Serializes the reactive graph of a context as a DOT, Mermaid or JSON document.
+ * Nodes are labelled with their `name` option, falling back to their generated id,
+ * and edges point from a dependency to the node depending on it.
+ *
+ * @param context - The context to serialize, the default context if omitted
+ * @param options - Optional configuration options
+ * @returns The serialized graph
+ */
+export function serializeGraph(
+	context: ReactiveContext = getDefaultContext(),
+	options?: SerializeGraphOptions,
+): string {
+	const { format = "json" } = options || {};
+	const graph = collectGraph(context);
+
+	switch (format) {
+		case "dot":
+			return toDot(graph);
+		case "mermaid":
+			return toMermaid(graph);
+		default:
+			return JSON.stringify(graph, null, 2);
+	}
+}
+
+/**
+ * Collects the nodes of a context and the edges between them
+ */
+function collectGraph(context: ReactiveContext): SerializedGraph {
+	const nodes = listNodes(context);
+	const edges: SerializedGraph["edges"] = [];
+
+	for (const node of nodes) {
+		if (node.kind === "signal") continue;
+		for (const dependency of getDependencies(
+			node.ref as Parameters<typeof getDependencies>[0],
+		)) {
+			edges.push({ from: dependency.id, to: node.id });
+		}
+	}
+
+	return {
+		nodes: nodes.map(({ ref, ...node }) => ({
+			...node,
+			label: node.name || node.id,
+		})),
+		edges,
+	};
+}
+
+/**
+ * Builds the label shown for a node, including its priority and state
+ */
+function describeLabel(node: SerializedGraph["nodes"][number]): string {
+	const details = [
+		node.priority !== undefined && `priority ${node.priority}`,
+		node.pending && "pending",
+		node.disposed && "disposed",
+	].filter(Boolean);
+
+	return details.length > 0
+		? `${node.label} (${details.join(", ")})`
+		: node.label;
+}
+
+// DOT shapes of each kind of node
+const DOT_SHAPES: Record<ReactiveNode["kind"], string> = {
+	signal: "ellipse",
+	computed: "box",
+	effect: "hexagon",
+};
+
+/**
+ * Formats the graph in the Graphviz DOT language
+ */
+function toDot(graph: SerializedGraph): string {
+	const escapeLabel = (text: string) => text.replace(/(["\\])/g, "\\$1");
+	const lines = ["digraph reactive {", "  rankdir=LR;"];
+
+	for (const node of graph.nodes) {
+		const attributes = [
+			`label="${escapeLabel(describeLabel(node))}"`,
+			`shape=${DOT_SHAPES[node.kind]}`,
+		];
+		if (node.disposed) attributes.push("style=dashed");
+		if (node.pending) attributes.push("color=orange");
+		lines.push(`  "${node.id}" [${attributes.join(", ")}];`);
+	}
+
+	for (const edge of graph.edges) {
+		lines.push(`  "${edge.from}" -> "${edge.to}";`);
+	}
+
+	lines.push("}");
+	return lines.join("\n");
+}
+
+// Mermaid shape delimiters of each kind of node
+const MERMAID_SHAPES: Record<ReactiveNode["kind"], [string, string]> = {
+	signal: ["([", "])"],
+	computed: ["[", "]"],
+	effect: ["{{", "}}"],
+};
+
+/**
+ * Formats the graph as a Mermaid flowchart
+ */
+function toMermaid(graph: SerializedGraph): string {
+	const escapeLabel = (text: string) => text.replace(/"/g, "#quot;");
+	const lines = ["flowchart LR"];
+
+	for (const node of graph.nodes) {
+		const [open, close] = MERMAID_SHAPES[node.kind];
+		lines.push(
+			`  ${node.id}${open}"${escapeLabel(describeLabel(node))}"${close}`,
+		);
+	}
+
+	for (const edge of graph.edges) {
+		lines.push(`  ${edge.from} --> ${edge.to}`);
+	}
+
+	const pending = graph.nodes.filter((node) => node.pending);
+	const disposed = graph.nodes.filter((node) => node.disposed);
+	if (pending.length > 0) {
+		lines.push("  classDef pending stroke:orange");
+		lines.push(`  class ${pending.map((node) => node.id).join(",")} pending`);
+	}
+	if (disposed.length > 0) {
+		lines.push("  classDef disposed stroke-dasharray:4");
+		lines.push(`  class ${disposed.map((node) => node.id).join(",")} disposed`);
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,4 @@
+export * from "./introspection";
+export * from "./graph";
+export * from "./tracing";
+export * from "./profiler";
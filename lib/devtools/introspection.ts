@@ -0,0 +1,138 @@
+import { getContextState, getDefaultContext } from "../context";
+import type {
+	EffectFn,
+	ReactiveContext,
+	ReactiveNode,
+	ReactiveNodeKind,
+	Signal,
+	SignalBase,
+	SignalValue,
+} from "../types";
+import { CLEAN } from "../utils";
+
+/**
+ * Any public function of the reactive graph: a signal, a computed accessor or an effect dispose function.
+ */
+type NodeRef = SignalBase | EffectFn;
+
+// Identifiers assigned to nodes the first time they are described
+const nodeIds = new WeakMap<object, string>();
+let nextNodeId = 0;
+
+/**
+ * Returns the effects and computed values that currently depend on a signal or computed value.
+ *
+ * @param source - The signal or computed value
+ * @returns The descriptors of the dependent nodes
+ */
+export function getSubscribers(source: SignalBase): ReactiveNode[] {
+	const subscribers: ReactiveNode[] = [];
+	for (const ref of source._deps) {
+		const observer = ref.deref();
+		if (observer?._handle && !observer._disposed) {
+			subscribers.push(describeNode(observer._handle));
+		}
+	}
+	return subscribers;
+}
+
+/**
+ * Returns the signals and computed values read by an effect or computed value during its latest run.
+ *
+ * @param node - The effect dispose function or the computed value
+ * @returns The descriptors of the dependencies
+ */
+export function getDependencies(
+	node: EffectFn | SignalValue<unknown>,
+): ReactiveNode[] {
+	const observer = getObserver(node);
+	const sources = observer?._sources;
+	return sources ? [...sources].map((source) => describeNode(source)) : [];
+}
+
+/**
+ * Returns the effect that was running when an effect was created, if any.
+ *
+ * @param effect - The effect dispose function
+ * @returns The descriptor of the owner effect
+ */
+export function getOwner(effect: EffectFn): ReactiveNode | undefined {
+	return effect._owner ? describeNode(effect._owner) : undefined;
+}
+
+/**
+ * Returns the effects created while an effect was running.
+ *
+ * @param effect - The effect dispose function
+ * @returns The descriptors of the child effects
+ */
+export function getChildren(effect: EffectFn): ReactiveNode[] {
+	return [...(effect._children ?? [])].map((child) => describeNode(child));
+}
+
+/**
+ * Lists the live nodes of a context: its effects and computed values, and the signals they depend on.
+ * Signals are held weakly by their context, so signals nothing depends on are not listed.
+ *
+ * @param context - The context to inspect, the default context if omitted
+ * @returns The descriptors of the nodes
+ */
+export function listNodes(
+	context: ReactiveContext = getDefaultContext(),
+): ReactiveNode[] {
+	const state = getContextState(context);
+	const nodes = new Set<unknown>([...state.effects, ...state.computeds]);
+
+	for (const sources of state.effectDependencies.values()) {
+		for (const source of sources) {
+			nodes.add(source);
+		}
+	}
+
+	return [...nodes].map((node) => describeNode(node));
+}
+
+/**
+ * Creates the descriptor of a node from its public function or its observer
+ */
+export function describeNode(node: unknown): ReactiveNode {
+	const ref = ((node as EffectFn)._handle ?? node) as NodeRef;
+	const kind = getNodeKind(ref);
+	const observer = getObserver(ref);
+
+	let id = nodeIds.get(ref);
+	if (!id) {
+		id = `${kind}_${++nextNodeId}`;
+		nodeIds.set(ref, id);
+	}
+
+	return {
+		id,
+		name: (ref as { _name?: string })._name,
+		kind,
+		priority: kind === "effect" ? observer?._priority : undefined,
+		disposed: Boolean(
+			observer ? observer._disposed : (ref as Signal<unknown>)._disposed,
+		),
+		pending: Boolean(
+			observer && !observer._disposed && observer._state !== CLEAN,
+		),
+		ref,
+	};
+}
+
+/**
+ * Determines the kind of a node from the metadata attached to its public function
+ */
+function getNodeKind(ref: NodeRef): ReactiveNodeKind {
+	if ((ref as EffectFn)._effect) return "effect";
+	if ((ref as SignalValue<unknown>)._isComputed) return "computed";
+	return "signal";
+}
+
+/**
+ * Returns the observer of an effect or computed value, undefined for signals
+ */
+function getObserver(ref: NodeRef): EffectFn | undefined {
+	return (ref as EffectFn)._effect ?? (ref as SignalValue<unknown>)._observer;
+}
@@ -0,0 +1,151 @@
+import { getDefaultContext } from "../context";
+import type {
+	FlushProfile,
+	NodeProfile,
+	ProfileReport,
+	Profiler,
+	ProfilerOptions,
+	ReactiveContext,
+	TraceEvent,
+} from "../types";
+import { describeNode } from "./introspection";
+
+/**
+ * The statistics collected for a node while profiling
+ */
+interface NodeStats {
+	runs: number;
+	totalTime: number;
+	maxTime: number;
+	equalRecomputes: number;
+}
+
+/**
+ * A run or flush recorded for the trace, times in milliseconds
+ */
+interface TimedEvent {
+	ref: unknown;
+	start: number;
+	duration: number;
+}
+
+/**
+ * Enables a profiler for a context.
+ * Every effect run, computed evaluation and effect flush is timed, and the statistics
+ * are aggregated per node until the profiler is stopped.
+ *
+ * Profiling has a cost on every run, enable it while measuring only.
+ *
+ * @param context - The context to profile, the default context if omitted
+ * @param options - Optional configuration options
+ * @returns The profiler
+ */
+export function enableProfiler(
+	context: ReactiveContext = getDefaultContext(),
+	options?: ProfilerOptions,
+): Profiler {
+	const { maxEvents = 10000 } = options || {};
+
+	let stats = new Map<unknown, NodeStats>();
+	let flushes = { count: 0, totalTime: 0, maxTime: 0 };
+	let events: TimedEvent[] = [];
+	let startTime = performance.now();
+
+	/**
+	 * Adds a run to the statistics of a node and to the trace
+	 */
+	const record = (ref: unknown, duration: number, equal = false) => {
+		let entry = stats.get(ref);
+		if (!entry) {
+			entry = { runs: 0, totalTime: 0, maxTime: 0, equalRecomputes: 0 };
+			stats.set(ref, entry);
+		}
+
+		entry.runs++;
+		entry.totalTime += duration;
+		entry.maxTime = Math.max(entry.maxTime, duration);
+		if (equal) entry.equalRecomputes++;
+
+		recordEvent(ref, duration);
+	};
+
+	/**
+	 * Keeps a trace event, dropping the oldest one past the limit
+	 */
+	const recordEvent = (ref: unknown, duration: number) => {
+		events.push({ ref, start: performance.now() - duration, duration });
+		if (events.length > maxEvents) {
+			events.shift();
+		}
+	};
+
+	const stop = context.instrument({
+		onComputedEvaluate: ({ computed, changed, duration }) => {
+			record(computed, duration, !changed);
+		},
+		onEffectRun: ({ effect, duration }) => {
+			record(effect, duration);
+		},
+		onFlush: ({ duration }) => {
+			flushes.count++;
+			flushes.totalTime += duration;
+			flushes.maxTime = Math.max(flushes.maxTime, duration);
+			recordEvent(undefined, duration);
+		},
+	});
+
+	return {
+		report() {
+			const nodes: NodeProfile[] = [...stats].map(([ref, entry]) => ({
+				node: describeNode(ref),
+				runs: entry.runs,
+				totalTime: entry.totalTime,
+				meanTime: entry.totalTime / entry.runs,
+				maxTime: entry.maxTime,
+				equalRecomputes: entry.equalRecomputes,
+			}));
+			nodes.sort((a, b) => b.totalTime - a.totalTime || b.runs - a.runs);
+
+			const flushProfile: FlushProfile = {
+				...flushes,
+				meanTime: flushes.count ? flushes.totalTime / flushes.count : 0,
+			};
+
+			const report: ProfileReport = {
+				nodes,
+				flushes: flushProfile,
+				duration: performance.now() - startTime,
+			};
+			return report;
+		},
+		exportTrace() {
+			const traceEvents = events.map(toTraceEvent);
+			return JSON.stringify({ traceEvents, displayTimeUnit: "ms" });
+		},
+		reset() {
+			stats = new Map();
+			flushes = { count: 0, totalTime: 0, maxTime: 0 };
+			events = [];
+			startTime = performance.now();
+		},
+		stop,
+	};
+}
+
+/**
+ * Converts a recorded run or flush into a complete event of the Chrome trace event format
+ */
+function toTraceEvent(event: TimedEvent): TraceEvent {
+	const node = event.ref === undefined ? undefined : describeNode(event.ref);
+
+	return {
+		name: node ? node.name || node.id : "flush",
+		cat: node ? node.kind : "flush",
+		ph: "X",
+		ts: Math.round(event.start * 1000),
+		dur: Math.round(event.duration * 1000),
+		pid: 1,
+		tid: 1,
+		args: node ? { id: node.id } : {},
+	};
+}
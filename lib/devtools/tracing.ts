@@ -0,0 +1,85 @@
+import { getContextState, getDefaultContext } from "../context";
+import type {
+	ChangeCause,
+	ChangeRecord,
+	EffectFn,
+	ReactiveContext,
+	RunCause,
+	TracingOptions,
+} from "../types";
+import { describeNode } from "./introspection";
+
+// The latest run cause of every traced effect, keyed by observer
+const lastRunCauses = new WeakMap<EffectFn, RunCause>();
+
+/**
+ * Enables change-cause tracing for a context.
+ * Every signal write and computed recomputation is recorded on the nodes it notifies,
+ * and each effect run keeps the chain of changes that caused it.
+ *
+ * Tracing has a cost on every write, enable it for debugging only.
+ *
+ * @param context - The context to trace, the default context if omitted
+ * @param options - Optional configuration options
+ * @returns A function disabling tracing
+ */
+export function enableTracing(
+	context: ReactiveContext = getDefaultContext(),
+	options?: TracingOptions,
+): () => void {
+	const state = getContextState(context);
+	const { stack = true, onTrace } = options || {};
+
+	const tracing = {
+		stack,
+		onRun(observer: EffectFn, records: ChangeRecord[]) {
+			const cause: RunCause = {
+				effect: describeNode(observer),
+				causes: records.map(toChangeCause),
+				timestamp: Date.now(),
+			};
+			lastRunCauses.set(observer, cause);
+
+			if (onTrace) {
+				try {
+					onTrace(cause);
+				} catch (error) {
+					console.error("Error in onTrace:", error);
+				}
+			}
+		},
+	};
+	state.tracing = tracing;
+
+	return () => {
+		if (state.tracing === tracing) {
+			state.tracing = null;
+		}
+	};
+}
+
+/**
+ * Returns why an effect last ran while tracing was enabled.
+ *
+ * @param effect - The effect dispose function
+ * @returns The cause of the latest traced run, if any
+ */
+export function getLastRunCause(effect: EffectFn): RunCause | undefined {
+	return effect._effect ? lastRunCauses.get(effect._effect) : undefined;
+}
+
+/**
+ * Converts a recorded change and the changes that caused it into descriptors
+ */
+function toChangeCause(record: ChangeRecord): ChangeCause {
+	return {
+		type: record.type,
+		node: describeNode(record.source),
+		method: record.method,
+		oldValue: record.oldValue,
+		newValue: record.newValue,
+		stack: record.stack,
+		causes: record.causes.map(toChangeCause),
+		timestamp: record.timestamp,
+	};
+}
@@ -1,4 +1,5 @@
 export * from "./core";
 export * from "./context";
+export * from "./devtools";
 export * from "./utils";
 export * from "./types";
@@ -0,0 +1,153 @@
+/**
+ * Represents the options for creating a reactive collection.
+ */
+export interface CollectionOptions {
+	/**
+	 * An optional name for the collection, useful for debugging.
+	 * The signals tracking the collection are named after it.
+	 */
+	name?: string;
+}
+
+/**
+ * Represents a reactive `Map`.
+ * Reading a key only tracks that key, while `size` only tracks the addition and removal of keys
+ * and iteration tracks every change.
+ */
+export interface SignalMap<K, V> extends Iterable<[K, V]> {
+	/**
+	 * Returns the value of a key, tracking that key.
+	 */
+	get(key: K): V | undefined;
+	/**
+	 * Checks whether a key exists, tracking that key.
+	 */
+	has(key: K): boolean;
+	/**
+	 * Sets the value of a key, notifying readers of the key when the value changed.
+	 */
+	set(key: K, value: V): SignalMap<K, V>;
+	/**
+	 * Sets several keys in a single batch.
+	 */
+	setAll(entries: Iterable<readonly [K, V]>): SignalMap<K, V>;
+	/**
+	 * Removes a key.
+	 * @returns Whether the key existed.
+	 */
+	delete(key: K): boolean;
+	/**
+	 * Removes every key in a single batch.
+	 */
+	clear(): void;
+	/**
+	 * The number of keys, tracking the addition and removal of keys.
+	 */
+	readonly size: number;
+	/**
+	 * Returns the keys, tracking the addition and removal of keys.
+	 */
+	keys(): IterableIterator<K>;
+	/**
+	 * Returns the values, tracking every change.
+	 */
+	values(): IterableIterator<V>;
+	/**
+	 * Returns the entries, tracking every change.
+	 */
+	entries(): IterableIterator<[K, V]>;
+	/**
+	 * Calls a function for every entry, tracking every change.
+	 */
+	forEach(callback: (value: V, key: K) => void): void;
+}
+
+/**
+ * Represents a reactive `Set`.
+ * Checking a value only tracks that value, while `size` and iteration track every change.
+ */
+export interface SignalSet<T> extends Iterable<T> {
+	/**
+	 * Checks whether a value is in the set, tracking that value.
+	 */
+	has(value: T): boolean;
+	/**
+	 * Adds a value, notifying readers when it was not in the set.
+	 */
+	add(value: T): SignalSet<T>;
+	/**
+	 * Adds several values in a single batch.
+	 */
+	addAll(values: Iterable<T>): SignalSet<T>;
+	/**
+	 * Removes a value.
+	 * @returns Whether the value was in the set.
+	 */
+	delete(value: T): boolean;
+	/**
+	 * Removes every value in a single batch.
+	 */
+	clear(): void;
+	/**
+	 * The number of values, tracking every change.
+	 */
+	readonly size: number;
+	/**
+	 * Returns the values, tracking every change.
+	 */
+	values(): IterableIterator<T>;
+	/**
+	 * Calls a function for every value, tracking every change.
+	 */
+	forEach(callback: (value: T) => void): void;
+}
+
+/**
+ * Represents a reactive array.
+ * Reading an index only tracks that index, `length` only tracks the length and iteration tracks every change.
+ */
+export interface SignalArray<T> extends Iterable<T> {
+	/**
+	 * Returns the item at an index, tracking that index.
+	 */
+	get(index: number): T | undefined;
+	/**
+	 * Sets the item at an index, notifying readers of the index when the item changed.
+	 */
+	set(index: number, value: T): void;
+	/**
+	 * The number of items, tracking the length.
+	 */
+	readonly length: number;
+	/**
+	 * Adds items to the end in a single batch.
+	 * @returns The new length.
+	 */
+	push(...items: T[]): number;
+	/**
+	 * Removes the last item.
+	 */
+	pop(): T | undefined;
+	/**
+	 * Adds items to the start in a single batch.
+	 * @returns The new length.
+	 */
+	unshift(...items: T[]): number;
+	/**
+	 * Removes the first item.
+	 */
+	shift(): T | undefined;
+	/**
+	 * Removes and inserts items in a single batch.
+	 * @returns The removed items.
+	 */
+	splice(start: number, deleteCount?: number, ...items: T[]): T[];
+	/**
+	 * Replaces every item in a single batch.
+	 */
+	replace(items: Iterable<T>): void;
+	/**
+	 * Returns a copy of the items, tracking every change.
+	 */
+	toArray(): T[];
+}
@@ -1,7 +1,34 @@
+import type { EqualityFn, Signal, SignalValue } from "./signal.types";
+
 /**
  * Represents a function that derives a computed value from other signals or state.
+ * It receives the previous computed value, or the initial value on the first run.
+ * The previous value is only undefined on the first run when no initial value is given.
+ */
+export type ComputedFn<T, P = T | undefined> = (previous: P) => T;
+
+/**
+ * Represents the functions of a writable computed value.
+ */
+export interface WritableComputedAccessors<T> {
+	/**
+	 * Derives the computed value from other signals or state.
+	 */
+	get: ComputedFn<T>;
+	/**
+	 * Receives the values written to the computed value and updates the signals it derives from.
+	 * @param value The written value.
+	 */
+	set: (value: T) => void;
+}
+
+/**
+ * Represents a computed value whose writes are routed to a setter.
+ * It can be read and written like a signal.
  */
-export type ComputedFn<T> = () => T;
+export interface WritableComputed<T>
+	extends SignalValue<T>,
+		Pick<Signal<T>, "set" | "update"> {}
 
 /**
  * Represents the options for creating a computed value.
@@ -26,4 +53,26 @@ export interface ComputedOptions<T> {
 	 * @param value The new value of the computed value.
 	 */
 	onComputed?: (value: T) => void;
+	/**
+	 * An optional comparator used to decide whether a recomputed value differs from the cached one.
+	 * When values are equal, the cached value is kept and dependents are not notified.
+	 * Defaults to `Object.is` semantics.
+	 */
+	equals?: EqualityFn<T>;
+	/**
+	 * The previous value passed to the computed function on its first run.
+	 * Defaults to `undefined`.
+	 */
+	initial?: T;
+}
+
+/**
+ * Represents the options for creating a computed value with an initial value,
+ * so the computed function always receives a previous value.
+ */
+export interface ComputedOptionsWithInitial<T> extends ComputedOptions<T> {
+	/**
+	 * The previous value passed to the computed function on its first run.
+	 */
+	initial: T;
 }
@@ -1,6 +1,14 @@
-import type { ComputedFn, ComputedOptions } from "./computed.types";
-import type { EffectFn, EffectOptions } from "./effect.types";
+import type {
+	ComputedFn,
+	ComputedOptions,
+	ComputedOptionsWithInitial,
+	WritableComputed,
+	WritableComputedAccessors,
+} from "./computed.types";
+import type { EffectCallback, EffectFn, EffectOptions } from "./effect.types";
+import type { InstrumentationHooks } from "./instrumentation.types";
 import type { Signal, SignalOptions, SignalValue } from "./signal.types";
+import type { TracingState } from "./tracing.types";
 
 /**
  * Represents a reactive context that provides a set of reactive primitives.
@@ -20,17 +28,28 @@ export interface ReactiveContext {
 	 * @param options The options for creating the effect.
 	 * @returns A function to dispose of the effect.
 	 */
-	effect: (fn: EffectFn, options?: EffectOptions) => EffectFn;
+	effect: (fn: EffectCallback, options?: EffectOptions) => EffectFn;
 	/**
 	 * Creates a computed value that automatically updates when its dependencies change.
+	 * Given `get` and `set` functions, the computed value is writable and writes are routed to `set`.
 	 * @param computedFn A function that derives the computed value from other signals or state.
 	 * @param options The options for creating the computed value.
 	 * @returns A signal value.
 	 */
-	computed: <T>(
-		computedFn: ComputedFn<T>,
-		options?: ComputedOptions<T>,
-	) => SignalValue<T>;
+	computed: {
+		<T>(
+			accessors: WritableComputedAccessors<T>,
+			options?: ComputedOptions<T>,
+		): WritableComputed<T>;
+		<T>(
+			computedFn: ComputedFn<T, T>,
+			options: ComputedOptionsWithInitial<T>,
+		): SignalValue<T>;
+		<T>(
+			computedFn: ComputedFn<T>,
+			options?: ComputedOptions<T>,
+		): SignalValue<T>;
+	};
 	/**
 	 * Batches multiple signal updates together.
 	 * Effects will only run once at the end of the batch.
@@ -46,8 +65,76 @@ export interface ReactiveContext {
 	untracked: <T>(fn: () => T) => T;
 	/**
 	 * Disposes of the reactive context and all its resources.
+	 * Effects and computed values created in the context are disposed, pending notifications are dropped
+	 * and further writes to the context's signals are ignored.
+	 * @returns A report of what was torn down.
 	 */
-	dispose?(): void;
+	dispose(): ContextDisposeReport;
+	/**
+	 * Registers hooks observing every signal, computed value, effect, batch and flush of the context.
+	 * @param hooks The hooks to register.
+	 * @returns A function unregistering the hooks.
+	 */
+	instrument(hooks: InstrumentationHooks): () => void;
+	/**
+	 * Sets how the effects queued by a batch are flushed when the outermost batch ends.
+	 * @param strategy The flush strategy.
+	 */
+	setFlushStrategy(strategy: FlushStrategy): void;
+}
+
+/**
+ * The reactive primitives injected into a context.
+ */
+export type ReactiveDependencies = Omit<
+	ReactiveContext,
+	"dispose" | "instrument" | "setFlushStrategy"
+>;
+
+/**
+ * Determines how the effects queued by a batch are flushed when the outermost batch ends:
+ * synchronously, in a microtask, or by a function receiving the flush to run.
+ * Flushes requested before a scheduled flush runs are coalesced.
+ */
+export type FlushStrategy =
+	| "sync"
+	| "microtask"
+	| ((flush: () => void) => void);
+
+/**
+ * Represents the options for creating a context.
+ */
+export interface ContextOptions {
+	/**
+	 * How the effects queued by a batch are flushed. Defaults to `"microtask"` in browsers and `"sync"` elsewhere.
+	 */
+	flush?: FlushStrategy;
+}
+
+/**
+ * Describes the resources released by disposing a reactive context.
+ */
+export interface ContextDisposeReport {
+	/**
+	 * The id of the disposed context state.
+	 */
+	id: string;
+	/**
+	 * The number of effects that were disposed.
+	 */
+	effects: number;
+	/**
+	 * The number of computed values that were disposed.
+	 */
+	computeds: number;
+	/**
+	 * The number of pending effect notifications that were dropped.
+	 */
+	pendingNotifications: number;
+	/**
+	 * The number of pending debounced runs that were cancelled.
+	 */
+	timers: number;
 }
 
 /**
@@ -83,6 +170,10 @@ export interface ContextState {
 	 * A set of all effects in this context.
 	 */
 	effects: Set<EffectFn>;
+	/**
+	 * A set of all computed values in this context.
+	 */
+	computeds: Set<SignalValue<unknown>>;
 	/**
 	 * A weak set of all signals in this context.
 	 */
@@ -99,4 +190,33 @@ export interface ContextState {
 	 * Map of parent effects to their child effects
 	 */
 	parentChildEffectsMap: WeakMap<EffectFn, Set<EffectFn>>;
+	/**
+	 * Indicates whether the context has been disposed.
+	 */
+	disposed: boolean;
+	/**
+	 * The tracing state when change-cause tracing is enabled.
+	 */
+	tracing: TracingState | null;
+	/**
+	 * The instrumentation hooks registered with the context.
+	 */
+	hooks: InstrumentationHooks[];
+	/**
+	 * The internal listeners of signal writes and batches, used by histories and transactions.
+	 * Unlike hooks, they don't count as instrumentation and are kept when the context is disposed.
+	 */
+	listeners: InstrumentationHooks[];
+	/**
+	 * The flush strategy of the context, the runtime default when undefined.
+	 */
+	flushStrategy: FlushStrategy | undefined;
+	/**
+	 * Indicates whether a flush has been scheduled and has not run yet.
+	 */
+	flushScheduled: boolean;
+	/**
+	 * The functions resolving the promises waiting for the next flush.
+	 */
+	flushWaiters: Array<() => void>;
 }
@@ -1,3 +1,18 @@
+import type { Scheduler } from "./scheduler.types";
+import type { SignalValue } from "./signal.types";
+import type { ChangeRecord } from "./tracing.types";
+
+/**
+ * Registers a function that runs before the next run of an effect or computed value, and when it is disposed.
+ */
+export type OnCleanup = (cleanup: () => void) => void;
+
+/**
+ * Represents the function run by an effect.
+ * It receives an `onCleanup` function bound to the current run, which stays usable after `await` in async effects.
+ */
+export type EffectCallback = (onCleanup: OnCleanup) => void;
+
 /**
  * Represents a function that is executed when its dependencies change.
  */
@@ -26,7 +41,69 @@ export interface EffectFn {
 	 * A reference to the original effect function, used for internal tracking.
 	 */
 	_effect?: EffectFn;
+	/**
+	 * The propagation state of the node: clean, pending a check of its computed dependencies, or dirty.
+	 */
+	_state?: number;
+	/**
+	 * Indicates whether the observer belongs to a computed value.
+	 */
+	_isComputed?: boolean;
+	/**
+	 * Indicates whether a computed observer refreshes eagerly instead of on read.
+	 */
+	_keepAlive?: boolean;
+	/**
+	 * Indicates whether the latest evaluation of a computed observer threw, leaving it dirty.
+	 */
+	_failed?: boolean;
+	/**
+	 * Indicates whether a debounced run is waiting on a timer.
+	 */
+	_hasPendingTimer?: boolean;
+	/**
+	 * For computed observers, a set of weak references to the effects that depend on the computed value.
+	 */
+	_deps?: Set<WeakRef<EffectFn>>;
+	/**
+	 * For observers, the public function of the node: the dispose function of an effect or the accessor of a computed value.
+	 */
+	_handle?: EffectFn | SignalValue<unknown>;
+	/**
+	 * For observers, the signals and computed values read during the latest run.
+	 */
+	_sources?: Set<unknown>;
+	/**
+	 * For effect dispose functions, the dispose function of the effect that was running when the effect was created.
+	 */
+	_owner?: EffectFn;
+	/**
+	 * For effect dispose functions, the dispose functions of the effects created while the effect was running.
+	 */
+	_children?: Set<EffectFn>;
+	/**
+	 * For observers, the changes recorded while tracing since the latest run.
+	 */
+	_causes?: ChangeRecord[];
 }
+/**
+ * Represents the options for throttling an effect.
+ */
+export interface ThrottleOptions {
+	/**
+	 * The length of a throttle window in milliseconds.
+	 */
+	wait: number;
+	/**
+	 * Indicates whether the update starting a window runs immediately. Defaults to true.
+	 */
+	leading?: boolean;
+	/**
+	 * Indicates whether updates made during a window run once it ends. Defaults to true.
+	 */
+	trailing?: boolean;
+}
+
 /**
  * Represents the options for creating an effect.
  */
@@ -38,9 +115,9 @@ export interface EffectOptions {
 	/**
 	 * An optional scheduler function that is called to run the effect.
 	 * This can be used to control when and how the effect is executed.
-	 * @param run A function that executes the effect.
+	 * A cancel function returned by the scheduler is called when the effect is disposed.
 	 */
-	scheduler?: (run: () => void) => void;
+	scheduler?: Scheduler;
 	/**
 	 * An optional priority for the effect, used to determine the order in which effects are executed.
 	 */
@@ -54,6 +131,16 @@ export interface EffectOptions {
 	 * If provided, the effect will only run after the specified time has elapsed since the last dependency change.
 	 */
 	debounce?: number;
+	/**
+	 * An optional maximum time in milliseconds a debounced run can be delayed.
+	 * If provided, a debounced effect runs at least once in that time while its dependencies keep changing.
+	 */
+	maxWait?: number;
+	/**
+	 * An optional throttle time in milliseconds, or the throttle options.
+	 * If provided, the effect runs at most once in that time, however often its dependencies change.
+	 */
+	throttle?: number | ThrottleOptions;
 	/**
 	 * @deprecated
 	 * Indicates whether the effect should run immediately.
@@ -0,0 +1,98 @@
+import type { Signal } from "./signal.types";
+
+/**
+ * Represents the options for recording the history of signals.
+ */
+export interface HistoryOptions {
+	/**
+	 * The maximum number of entries kept, older entries are dropped first. Defaults to 100.
+	 */
+	limit?: number;
+}
+
+/**
+ * Represents a change of a signal recorded in a history entry.
+ */
+export interface HistoryChange {
+	/**
+	 * The signal that changed.
+	 */
+	signal: Signal<unknown>;
+	/**
+	 * The value before the change.
+	 */
+	oldValue: unknown;
+	/**
+	 * The value after the change.
+	 */
+	newValue: unknown;
+}
+
+/**
+ * Represents an entry of a history: a write, or every write made within one batch.
+ */
+export interface HistoryEntry {
+	/**
+	 * The changes of the entry, one per signal, in the order the signals were first written.
+	 */
+	changes: HistoryChange[];
+}
+
+/**
+ * Represents the controls shared by signal histories and time-travel recorders.
+ */
+export interface HistoryControls {
+	/**
+	 * Reverts the latest entry.
+	 */
+	undo: () => void;
+	/**
+	 * Re-applies the latest reverted entry.
+	 */
+	redo: () => void;
+	/**
+	 * Reactive function indicating whether there is an entry to revert.
+	 */
+	canUndo: () => boolean;
+	/**
+	 * Reactive function indicating whether there is a reverted entry to re-apply.
+	 */
+	canRedo: () => boolean;
+	/**
+	 * Discards every entry without changing the current values.
+	 */
+	clear: () => void;
+	/**
+	 * Stops recording. The recorded entries can still be reverted and re-applied.
+	 */
+	dispose: () => void;
+}
+
+/**
+ * Represents the history of a single signal.
+ */
+export interface SignalHistory<T> extends HistoryControls {
+	/**
+	 * The signal whose writes are recorded.
+	 */
+	signal: Signal<T>;
+}
+
+/**
+ * Represents a recorder of the writes made to every signal of a context.
+ */
+export interface TimeTravel extends HistoryControls {
+	/**
+	 * Reactive function returning the recorded entries, the oldest first.
+	 */
+	entries: () => HistoryEntry[];
+	/**
+	 * Reactive function returning the number of entries currently applied.
+	 */
+	position: () => number;
+	/**
+	 * Reverts or re-applies entries until the given number of entries is applied.
+	 * @param position The number of entries to keep applied, 0 reverting every entry.
+	 */
+	goTo: (position: number) => void;
+}
@@ -1,4 +1,16 @@
+export * from "./collections.types";
 export * from "./computed.types";
 export * from "./context.types";
 export * from "./effect.types";
+export * from "./history.types";
+export * from "./instrumentation.types";
+export * from "./introspection.types";
+export * from "./profiler.types";
+export * from "./resource.types";
+export * from "./scheduler.types";
+export * from "./scope.types";
 export * from "./signal.types";
+export * from "./store.types";
+export * from "./tracing.types";
+export * from "./transaction.types";
+export * from "./watch.types";
@@ -0,0 +1,52 @@
+import type { EffectFn } from "./effect.types";
+import type { Signal, SignalValue } from "./signal.types";
+
+/**
+ * Represents the hooks observing the primitives of a context.
+ * Every hook receives a single event object.
+ */
+export interface InstrumentationHooks {
+	/**
+	 * Called when a signal is created.
+	 */
+	onSignalCreate?: (event: { signal: Signal<unknown> }) => void;
+	/**
+	 * Called when a write changes the value of a signal.
+	 */
+	onSignalWrite?: (event: {
+		signal: Signal<unknown>;
+		oldValue: unknown;
+		newValue: unknown;
+	}) => void;
+	/**
+	 * Called after a computed value is evaluated.
+	 * `changed` is false when the new value is equal to the previous one.
+	 */
+	onComputedEvaluate?: (event: {
+		computed: SignalValue<unknown>;
+		value: unknown;
+		changed: boolean;
+		duration: number;
+	}) => void;
+	/**
+	 * Called after an effect runs, with the duration of its synchronous part in milliseconds.
+	 */
+	onEffectRun?: (event: { effect: EffectFn; duration: number }) => void;
+	/**
+	 * Called when an effect is disposed.
+	 */
+	onEffectDispose?: (event: { effect: EffectFn }) => void;
+	/**
+	 * Called when a batch starts, with the batch depth including the new batch.
+	 */
+	onBatchStart?: (event: { depth: number }) => void;
+	/**
+	 * Called when a batch ends, with the batch depth left after it.
+	 */
+	onBatchEnd?: (event: { depth: number }) => void;
+	/**
+	 * Called after queued effects and computed values are flushed,
+	 * with the number of nodes invoked and the duration in milliseconds.
+	 */
+	onFlush?: (event: { effects: number; duration: number }) => void;
+}
@@ -0,0 +1,68 @@
+/**
+ * The kinds of nodes in the reactive graph.
+ */
+export type ReactiveNodeKind = "signal" | "computed" | "effect";
+
+/**
+ * Describes a node of the reactive graph.
+ */
+export interface ReactiveNode {
+	/**
+	 * An identifier that stays the same for the lifetime of the node.
+	 */
+	id: string;
+	/**
+	 * The name given to the node with the `name` option.
+	 */
+	name: string | undefined;
+	/**
+	 * The kind of the node.
+	 */
+	kind: ReactiveNodeKind;
+	/**
+	 * The priority of an effect, undefined for other nodes or when not set.
+	 */
+	priority: number | undefined;
+	/**
+	 * Indicates whether the node has been disposed.
+	 */
+	disposed: boolean;
+	/**
+	 * Indicates whether the node has an update waiting: a queued effect run or a stale computed value.
+	 */
+	pending: boolean;
+	/**
+	 * The public function of the node: the signal, the computed accessor or the effect dispose function.
+	 */
+	ref: unknown;
+}
+
+/**
+ * The formats the reactive graph can be serialized to.
+ */
+export type GraphFormat = "dot" | "mermaid" | "json";
+
+/**
+ * Represents the options for serializing the reactive graph.
+ */
+export interface SerializeGraphOptions {
+	/**
+	 * The output format. Defaults to `"json"`.
+	 */
+	format?: GraphFormat;
+}
+
+/**
+ * Represents the reactive graph in the JSON format.
+ * Edges point from a dependency to the node depending on it, in the direction changes propagate.
+ */
+export interface SerializedGraph {
+	/**
+	 * The nodes of the graph, labelled with their name or their id.
+	 */
+	nodes: Array<Omit<ReactiveNode, "ref"> & { label: string }>;
+	/**
+	 * The dependency edges of the graph, referencing node ids.
+	 */
+	edges: Array<{ from: string; to: string }>;
+}
@@ -0,0 +1,144 @@
+import type { ReactiveNode } from "./introspection.types";
+
+/**
+ * Represents the execution statistics of an effect or computed value.
+ * Times are in milliseconds.
+ */
+export interface NodeProfile {
+	/**
+	 * The profiled node.
+	 */
+	node: ReactiveNode;
+	/**
+	 * The number of effect runs or computed evaluations.
+	 */
+	runs: number;
+	/**
+	 * The time spent in all runs.
+	 */
+	totalTime: number;
+	/**
+	 * The mean time of a run.
+	 */
+	meanTime: number;
+	/**
+	 * The time of the slowest run.
+	 */
+	maxTime: number;
+	/**
+	 * For computed values, the number of evaluations that produced a value equal to the previous one.
+	 */
+	equalRecomputes: number;
+}
+
+/**
+ * Represents the statistics of the effect flushes of a context.
+ * Times are in milliseconds.
+ */
+export interface FlushProfile {
+	/**
+	 * The number of flushes.
+	 */
+	count: number;
+	/**
+	 * The time spent in all flushes.
+	 */
+	totalTime: number;
+	/**
+	 * The mean time of a flush.
+	 */
+	meanTime: number;
+	/**
+	 * The time of the slowest flush.
+	 */
+	maxTime: number;
+}
+
+/**
+ * Represents the statistics collected by a profiler.
+ */
+export interface ProfileReport {
+	/**
+	 * The profiled effects and computed values, the most expensive first.
+	 */
+	nodes: NodeProfile[];
+	/**
+	 * The statistics of the effect flushes.
+	 */
+	flushes: FlushProfile;
+	/**
+	 * The time elapsed since profiling started or was reset, in milliseconds.
+	 */
+	duration: number;
+}
+
+/**
+ * Represents an event of the Chrome trace event format.
+ */
+export interface TraceEvent {
+	/**
+	 * The name of the event.
+	 */
+	name: string;
+	/**
+	 * The category of the event: the kind of node, or "flush".
+	 */
+	cat: string;
+	/**
+	 * The phase of the event, "X" for complete events.
+	 */
+	ph: "X";
+	/**
+	 * The start of the event, in microseconds.
+	 */
+	ts: number;
+	/**
+	 * The duration of the event, in microseconds.
+	 */
+	dur: number;
+	/**
+	 * The process identifier.
+	 */
+	pid: number;
+	/**
+	 * The thread identifier.
+	 */
+	tid: number;
+	/**
+	 * Additional data shown with the event.
+	 */
+	args: Record<string, unknown>;
+}
+
+/**
+ * Represents the options for enabling a profiler.
+ */
+export interface ProfilerOptions {
+	/**
+	 * The maximum number of trace events kept, older events are dropped first. Defaults to 10000.
+	 */
+	maxEvents?: number;
+}
+
+/**
+ * Represents a profiler collecting the execution statistics of a context.
+ */
+export interface Profiler {
+	/**
+	 * Returns the statistics collected so far.
+	 */
+	report: () => ProfileReport;
+	/**
+	 * Returns the recorded runs and flushes as a Chrome trace event JSON file,
+	 * which can be loaded in the Performance panel of Chrome devtools or in Perfetto.
+	 */
+	exportTrace: () => string;
+	/**
+	 * Discards the statistics and events collected so far.
+	 */
+	reset: () => void;
+	/**
+	 * Stops profiling. The collected statistics remain available.
+	 */
+	stop: () => void;
+}
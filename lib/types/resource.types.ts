@@ -0,0 +1,77 @@
+/**
+ * Information passed to a resource fetcher alongside the source value.
+ */
+export interface ResourceFetcherInfo<T> {
+	/**
+	 * An abort signal that is triggered when the request becomes stale,
+	 * either because the source changed, the resource was refetched or it was disposed.
+	 */
+	signal: AbortSignal;
+	/**
+	 * The value of the resource before this request started.
+	 */
+	previous: T | undefined;
+	/**
+	 * Indicates whether the request was started by `refetch()`.
+	 */
+	refetching: boolean;
+}
+
+/**
+ * Represents a function that loads the value of a resource for a source value.
+ */
+export type ResourceFetcher<S, T> = (
+	source: S,
+	info: ResourceFetcherInfo<T>,
+) => Promise<T> | T;
+
+/**
+ * Represents the options for creating a resource.
+ */
+export interface ResourceOptions<T> {
+	/**
+	 * An optional name for the resource, useful for debugging.
+	 */
+	name?: string;
+	/**
+	 * An optional value used before the first request resolves.
+	 */
+	initialValue?: T;
+	/**
+	 * Indicates whether the previous value is kept while a new request is loading.
+	 * When `false`, the value is reset to `undefined` as soon as a request starts, once a request has resolved.
+	 */
+	keepPrevious?: boolean;
+	/**
+	 * An optional error handler function that is called if the fetcher throws or rejects.
+	 * @param error The error that was thrown.
+	 */
+	onError?: (error: Error) => void;
+}
+
+/**
+ * Represents a reactive value loaded asynchronously from a source.
+ */
+export interface Resource<T> {
+	/**
+	 * Signal accessor for the latest loaded value.
+	 */
+	value: () => T | undefined;
+	/**
+	 * Signal accessor indicating whether a request is in flight.
+	 */
+	loading: () => boolean;
+	/**
+	 * Signal accessor for the error of the latest request, if it failed.
+	 */
+	error: () => Error | undefined;
+	/**
+	 * Loads the resource again for the current source value.
+	 * @returns A promise resolving to the loaded value, or `undefined` if the request became stale or failed.
+	 */
+	refetch: () => Promise<T | undefined>;
+	/**
+	 * Aborts any request in flight and stops reacting to source changes.
+	 */
+	dispose: () => void;
+}
@@ -0,0 +1,17 @@
+/**
+ * Represents a function scheduling the runs of an effect.
+ * It can return a function cancelling the scheduled run, which is called when the effect is disposed.
+ * Other return values are ignored.
+ * @param run A function that executes the effect.
+ */
+export type Scheduler = (run: () => void) => unknown;
+
+/**
+ * Represents the options for creating an idle scheduler.
+ */
+export interface IdleSchedulerOptions {
+	/**
+	 * An optional time in milliseconds after which queued runs execute even if the runtime never becomes idle.
+	 */
+	timeout?: number;
+}
@@ -0,0 +1,55 @@
+/**
+ * Represents a scope that collects the effects and computed values created inside it,
+ * so they can be paused, resumed and disposed as a unit.
+ */
+export interface EffectScope {
+	/**
+	 * Runs a function inside the scope.
+	 * Effects, computed values and nested scopes created while it runs belong to the scope.
+	 * @param fn The function to run.
+	 * @returns The return value of the function, or undefined if the scope has been stopped.
+	 */
+	run<T>(fn: () => T): T | undefined;
+	/**
+	 * Disposes every effect, computed value and nested scope collected by the scope,
+	 * and runs the callbacks registered with `onScopeDispose`, all in the order they were added.
+	 */
+	stop(): void;
+	/**
+	 * Pauses the effects of the scope and its nested scopes.
+	 * Effects notified while paused run once when the scope is resumed.
+	 */
+	pause(): void;
+	/**
+	 * Resumes the effects of the scope and its nested scopes.
+	 */
+	resume(): void;
+	/**
+	 * Indicates whether the scope has not been stopped yet.
+	 */
+	readonly active: boolean;
+	/**
+	 * Indicates whether the scope is paused.
+	 */
+	readonly paused: boolean;
+	/**
+	 * @internal
+	 * Adds a dispose function to the scope.
+	 */
+	_add: (dispose: () => void) => void;
+	/**
+	 * @internal
+	 * Removes a dispose function from the scope.
+	 */
+	_remove: (dispose: () => void) => void;
+	/**
+	 * @internal
+	 * Defers an effect run until the scope is resumed.
+	 */
+	_defer: (run: () => void) => void;
+	/**
+	 * @internal
+	 * The nested scopes collected by the scope.
+	 */
+	_scopes: Set<EffectScope>;
+}
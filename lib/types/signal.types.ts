@@ -1,3 +1,4 @@
+import type { ContextState } from "./context.types";
 import type { EffectFn } from "./effect.types";
 
 /**
@@ -27,6 +28,18 @@ export interface SignalValue<T> {
 	 * @returns The computed signal's value.
 	 */
 	(): T;
+	/**
+	 * Returns the computed value without tracking it, re-evaluating it first if it is stale.
+	 * @returns The computed signal's value.
+	 */
+	peek: () => T;
+	/**
+	 * Calls a listener with the new and previous values after each change, without tracking.
+	 * @param listener The function called with the new and previous values.
+	 * @param options The options for the subscription.
+	 * @returns A function removing the subscription.
+	 */
+	subscribe: Subscribe<T>;
 	/**
 	 * Method to clean up resources associated with the computed signal.
 	 * This is important to prevent memory leaks.
@@ -37,6 +50,19 @@ export interface SignalValue<T> {
 	 * Used for internal checks and optimizations.
 	 */
 	_isComputed: boolean;
+	/**
+	 * A set of weak references to the effects that depend on this computed signal.
+	 * Used for dependency tracking and automatic updates.
+	 */
+	_deps: Set<WeakRef<EffectFn>>;
+	/**
+	 * Brings the computed value up to date without tracking it.
+	 */
+	_refresh: () => void;
+	/**
+	 * The observer registered with the dependencies of the computed value.
+	 */
+	_observer: EffectFn;
 }
 
 /**
@@ -49,6 +75,18 @@ export interface Signal<T> {
 	 * @returns The signal's value.
 	 */
 	(): T;
+	/**
+	 * Returns the signal's value without tracking it.
+	 * @returns The signal's value.
+	 */
+	peek: () => T;
+	/**
+	 * Calls a listener with the new and previous values after each change, without tracking.
+	 * @param listener The function called with the new and previous values.
+	 * @param options The options for the subscription.
+	 * @returns A function removing the subscription.
+	 */
+	subscribe: Subscribe<T>;
 	/**
 	 * Method to set the signal's value.
 	 * @param value The new value for the signal.
@@ -64,8 +102,83 @@ export interface Signal<T> {
 	 * Used for dependency tracking and automatic updates.
 	 */
 	_deps: Set<WeakRef<EffectFn>>;
+	/**
+	 * Indicates whether the context of the signal has been disposed.
+	 */
+	_disposed?: boolean;
+	/**
+	 * The state of the context the signal belongs to.
+	 */
+	_ctx?: ContextState;
+	/**
+	 * Puts back a previous value without notifying subscribers, used to roll back transactions and apply history entries.
+	 * @param value The value to put back.
+	 */
+	_restore: (value: T) => void;
+}
+
+/**
+ * Represents a read-only view of a signal or computed value.
+ * Reading it tracks the original, and it has no methods to write the value.
+ */
+export interface ReadonlySignal<T> {
+	/**
+	 * Function to access the value of the original signal.
+	 * @returns The signal's value.
+	 */
+	(): T;
+	/**
+	 * Returns the value of the original signal without tracking it.
+	 * @returns The signal's value.
+	 */
+	peek: () => T;
+	/**
+	 * Calls a listener with the new and previous values after each change, without tracking.
+	 * @param listener The function called with the new and previous values.
+	 * @param options The options for the subscription.
+	 * @returns A function removing the subscription.
+	 */
+	subscribe: Subscribe<T>;
+	/**
+	 * The dependencies of the original signal.
+	 */
+	readonly _deps: Set<WeakRef<EffectFn>>;
+	/**
+	 * Flag indicating that this is a read-only view.
+	 */
+	readonly _isReadonly: true;
 }
 
+/**
+ * Represents a function called with the new and previous values of a signal after it changes.
+ * The previous value is `undefined` for the immediate call.
+ */
+export type SubscribeListener<T> = (value: T, previous: T | undefined) => void;
+
+/**
+ * Represents the options for subscribing to a signal.
+ */
+export interface SubscribeOptions {
+	/**
+	 * Indicates whether the listener is called right away with the current value. Defaults to `false`.
+	 */
+	immediate?: boolean;
+}
+
+/**
+ * Represents the subscribe method of a signal, returning a function removing the subscription.
+ */
+export type Subscribe<T> = (
+	listener: SubscribeListener<T>,
+	options?: SubscribeOptions,
+) => () => void;
+
+/**
+ * Represents a function that decides whether two values are equal.
+ * When it returns `true`, the new value is treated as unchanged and subscribers are not notified.
+ */
+export type EqualityFn<T> = (previous: T, next: T) => boolean;
+
 /**
  * Represents the options for creating a signal.
  */
@@ -85,4 +198,9 @@ export interface SignalOptions<T> {
 	 * @param oldValue The previous value of the signal.
 	 */
 	onSet?: (newValue: unknown, oldValue: unknown) => void;
+	/**
+	 * An optional comparator used to decide whether a new value differs from the current one.
+	 * Defaults to `Object.is` semantics.
+	 */
+	equals?: EqualityFn<T>;
 }
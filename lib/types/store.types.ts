@@ -0,0 +1,47 @@
+/**
+ * Represents a function that derives the next value at a store path from the current one.
+ */
+export type StoreUpdater<T> = (previous: T) => T;
+
+/**
+ * Represents the value or updater accepted at a store path.
+ */
+export type StoreValue<T> = T | StoreUpdater<T>;
+
+/**
+ * Represents the setter returned alongside a store.
+ * The leading arguments are a path of keys into the store, the last one is the new value
+ * or an updater receiving the current value. Without a path, the value is merged into the root.
+ */
+export interface SetStoreFunction<T> {
+	(value: Partial<T> | StoreUpdater<T>): void;
+	<K1 extends keyof T>(k1: K1, value: StoreValue<T[K1]>): void;
+	<K1 extends keyof T, K2 extends keyof T[K1]>(
+		k1: K1,
+		k2: K2,
+		value: StoreValue<T[K1][K2]>,
+	): void;
+	<K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2]>(
+		k1: K1,
+		k2: K2,
+		k3: K3,
+		value: StoreValue<T[K1][K2][K3]>,
+	): void;
+	(...args: [...path: PropertyKey[], value: unknown]): void;
+}
+
+/**
+ * Represents a deep reactive store and its setter.
+ */
+export type Store<T> = [state: T, setStore: SetStoreFunction<T>];
+
+/**
+ * Represents the options for creating a store.
+ */
+export interface StoreOptions {
+	/**
+	 * An optional name for the store, useful for debugging.
+	 * Property signals are named after it.
+	 */
+	name?: string;
+}
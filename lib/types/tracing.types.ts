@@ -0,0 +1,127 @@
+import type { EffectFn } from "./effect.types";
+import type { ReactiveNode } from "./introspection.types";
+
+/**
+ * @internal
+ * A change recorded while tracing: a signal write or a computed value producing a new value.
+ */
+export interface ChangeRecord {
+	/**
+	 * The kind of change.
+	 */
+	type: "write" | "computed";
+	/**
+	 * The signal or computed value that changed.
+	 */
+	source: unknown;
+	/**
+	 * For writes, the signal method that was called.
+	 */
+	method?: "set" | "update";
+	/**
+	 * The value before the change.
+	 */
+	oldValue: unknown;
+	/**
+	 * The value after the change.
+	 */
+	newValue: unknown;
+	/**
+	 * For writes, the stack trace of the call when stack capture is enabled.
+	 */
+	stack?: string;
+	/**
+	 * For computed values, the changes that caused the recomputation.
+	 */
+	causes: ChangeRecord[];
+	/**
+	 * When the change happened, in milliseconds since the epoch.
+	 */
+	timestamp: number;
+}
+
+/**
+ * @internal
+ * The tracing state of a context.
+ */
+export interface TracingState {
+	/**
+	 * Indicates whether stack traces are captured for signal writes.
+	 */
+	stack: boolean;
+	/**
+	 * Called before an effect of the context runs with the changes that caused the run.
+	 */
+	onRun: (effect: EffectFn, causes: ChangeRecord[]) => void;
+}
+
+/**
+ * Describes a change that caused an effect run.
+ */
+export interface ChangeCause {
+	/**
+	 * The kind of change: a signal write or a computed value producing a new value.
+	 */
+	type: "write" | "computed";
+	/**
+	 * The signal or computed value that changed.
+	 */
+	node: ReactiveNode;
+	/**
+	 * For writes, the signal method that was called.
+	 */
+	method?: "set" | "update";
+	/**
+	 * The value before the change.
+	 */
+	oldValue: unknown;
+	/**
+	 * The value after the change.
+	 */
+	newValue: unknown;
+	/**
+	 * For writes, the stack trace of the call when stack capture is enabled.
+	 */
+	stack?: string;
+	/**
+	 * For computed values, the changes that caused the recomputation.
+	 */
+	causes: ChangeCause[];
+	/**
+	 * When the change happened, in milliseconds since the epoch.
+	 */
+	timestamp: number;
+}
+
+/**
+ * Describes why an effect ran.
+ */
+export interface RunCause {
+	/**
+	 * The effect that ran.
+	 */
+	effect: ReactiveNode;
+	/**
+	 * The changes that caused the run, empty for the initial run.
+	 */
+	causes: ChangeCause[];
+	/**
+	 * When the effect ran, in milliseconds since the epoch.
+	 */
+	timestamp: number;
+}
+
+/**
+ * Represents the options for enabling tracing.
+ */
+export interface TracingOptions {
+	/**
+	 * Indicates whether stack traces are captured for signal writes. Defaults to true.
+	 */
+	stack?: boolean;
+	/**
+	 * An optional callback that is called with the cause of every effect run.
+	 * @param cause The cause of the run.
+	 */
+	onTrace?: (cause: RunCause) => void;
+}
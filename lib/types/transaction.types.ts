@@ -0,0 +1,5 @@
+/**
+ * Represents the function run by a transaction.
+ * It receives a `rollback` function that reverts every write made in the transaction and ends it.
+ */
+export type TransactionFn<T> = (rollback: () => never) => T;
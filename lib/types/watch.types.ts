@@ -0,0 +1,51 @@
+import type { OnCleanup } from "./effect.types";
+
+/**
+ * Represents a source watched by `watch`: a signal, a computed value or a getter function.
+ */
+export type WatchSource<T> = () => T;
+
+/**
+ * Represents the values of a list of watched sources.
+ */
+export type WatchSourceValues<S extends readonly WatchSource<unknown>[]> = {
+	[K in keyof S]: S[K] extends WatchSource<infer V> ? V : never;
+};
+
+/**
+ * Represents the function called by `watch` when the watched value changes.
+ * It runs untracked, and receives an `onCleanup` function running before the next call and when the watcher stops.
+ */
+export type WatchCallback<T> = (
+	value: T,
+	oldValue: T | undefined,
+	onCleanup: OnCleanup,
+) => void;
+
+/**
+ * Represents the options for creating a watcher.
+ */
+export interface WatchOptions<T> {
+	/**
+	 * An optional name for the watcher, useful for debugging.
+	 */
+	name?: string;
+	/**
+	 * Indicates whether the callback is called with the current value when the watcher is created.
+	 */
+	immediate?: boolean;
+	/**
+	 * Indicates whether nested properties of the watched value are tracked.
+	 * Deep watchers call the callback on every change, as the value can be the same mutated object.
+	 */
+	deep?: boolean;
+	/**
+	 * Indicates whether the watcher stops after the callback is called once.
+	 */
+	once?: boolean;
+	/**
+	 * An optional function determining whether the new value is equal to the previous one.
+	 * The callback is not called for equal values. Defaults to `Object.is`, applied to each value for a list of sources.
+	 */
+	equals?: (a: T, b: T) => boolean;
+}
@@ -1,7 +1,7 @@
 import { getCurrentContext } from "../context";
 import type { ContextState, EffectFn, Signal, SignalBase } from "../types";
 import { scheduleEffects } from "./effect";
-import { getActiveTracker, hasActiveTracker } from "./tracker";
+import { getActiveTracker, getTrackerState, hasActiveTracker } from "./tracker";
 
 /**
  * Add a dependency relationship between an effect and a reactive source
@@ -28,9 +28,15 @@ export function trackDependency(state: ContextState, signal: SignalBase): void {
 	const activeEffect = getActiveTracker(state);
 	if (!activeEffect) return;
 
+	// Dependencies live in the tracker's own state, even when read from another context
+	const trackerState = getTrackerState(state, activeEffect);
+
+	// Skip sources already tracked during the current run
+	if (trackerState.effectDependencies.get(activeEffect)?.has(signal)) return;
+
 	// Add bidirectional dependency relationship
 	// 1. Store signal as a dependency of the active effect
-	addDependency(state, activeEffect, signal);
+	addDependency(trackerState, activeEffect, signal);
 
 	// 2. Store effect as a dependent of the signal
 	signal._deps.add(new WeakRef(activeEffect));
@@ -43,7 +49,8 @@ export function notifyDependents(
 	state: ContextState,
 	signal: SignalBase,
 ): void {
-	// Early return if no pending queue is needed
+	// Early return if no pending queue is needed, nothing is queued in a disposed context
+	if (state.disposed) return;
 	if (state.batchDepth === 0 && signal._deps.size === 0) return;
 
 	// Collect subscribers and clean up dead references
@@ -82,9 +89,10 @@ export function notifyDependents(
 /**
  * Remove an effect from all its dependencies
  */
-export function unsubscribeDependencies(effect: EffectFn) {
-	const ctx = getCurrentContext();
-
+export function unsubscribeDependencies(
+	effect: EffectFn,
+	ctx: ContextState = getCurrentContext(),
+) {
 	// Get dependencies from both context-specific storage
 	const ctxDeps = ctx.effectDependencies.get(effect) as Set<Signal<unknown>>;
 
@@ -1,4 +1,10 @@
-import type { ContextState, EffectFn } from "../types";
+import type { ContextState, EffectFn, SignalValue } from "../types";
+import {
+	elapsedSince,
+	emitHook,
+	isInstrumented,
+	startTiming,
+} from "./instrumentation";
 import { NOT_TRACKING } from "./tracker";
 
 /**
@@ -8,6 +14,9 @@ export function scheduleEffects(
 	state: ContextState,
 	effects: EffectFn[],
 ): void {
+	// Nothing runs in a disposed context
+	if (state.disposed) return;
+
 	// Sort by priority (if available)
 	const sorted = [...effects].sort((a, b) => {
 		const priorityA = a._priority || 0;
@@ -29,6 +38,21 @@ export function scheduleEffects(
 	}
 }
 
+/**
+ * Node state: the node is up to date
+ */
+export const CLEAN = 0;
+
+/**
+ * Node state: a computed value the node depends on may have changed
+ */
+export const CHECK = 1;
+
+/**
+ * Node state: a direct dependency of the node has changed
+ */
+export const DIRTY = 2;
+
 /**
  * Schedule effects to run after current operations complete
  */
@@ -38,28 +62,145 @@ export function queueEffects(
 ): void {
 	if (subscribers.size === 0) return;
 
-	// Efficient deduplication using the pending registry
+	// Mark direct subscribers dirty and propagate checks through computed values
+	const hasQueuedEffects = markSubscribers(state, subscribers, DIRTY);
+
+	// Run effects immediately if not batching and we have queued effects
+	if (state.batchDepth === 0 && hasQueuedEffects) {
+		flushEffects(state);
+	}
+}
+
+/**
+ * Push phase of change propagation.
+ * Marks subscribers with the given state, propagates CHECK through computed values
+ * and queues effects that need to be re-evaluated.
+ * @returns Whether any effect was added to the pending queue
+ */
+export function markSubscribers(
+	state: ContextState,
+	subscribers: Set<WeakRef<EffectFn>>,
+	level: number,
+): boolean {
 	let hasQueuedEffects = false;
 
+	// Nothing is queued in a disposed context
+	if (state.disposed) return hasQueuedEffects;
+
 	// Process subscribers, cleaning up dead references
 	for (const ref of subscribers) {
-		const effect = ref.deref();
-		if (effect) {
-			// Only queue if not already pending
-			if (!state.pendingRegistry.has(effect)) {
-				state.pendingNotifications.push(effect);
-				state.pendingRegistry.add(effect);
-				hasQueuedEffects = true;
-			}
-		} else {
-			// Clean up dead reference
+		const observer = ref.deref();
+		if (!observer) {
 			subscribers.delete(ref);
+			continue;
+		}
+
+		const previous = observer._state || CLEAN;
+
+		// A computed value left dirty by an error has settled subscribers, which must hear of later changes
+		const isFailed = observer._isComputed && observer._failed;
+		if (previous >= level && !isFailed) continue;
+		observer._state = Math.max(previous, level);
+
+		// Computed values notify their own subscribers only once per change
+		if (observer._isComputed) {
+			if ((previous === CLEAN || isFailed) && observer._deps) {
+				hasQueuedEffects =
+					markSubscribers(state, observer._deps, CHECK) || hasQueuedEffects;
+			}
+			// Lazy computed values are evaluated when read
+			if (!observer._keepAlive) continue;
+		}
+
+		// Only queue if not already pending
+		if (!state.pendingRegistry.has(observer)) {
+			state.pendingNotifications.push(observer);
+			state.pendingRegistry.add(observer);
+			hasQueuedEffects = true;
 		}
 	}
 
-	// Run effects immediately if not batching and we have queued effects
-	if (state.batchDepth === 0 && hasQueuedEffects) {
+	return hasQueuedEffects;
+}
+
+/**
+ * Pull phase of change propagation.
+ * Brings the computed dependencies of a CHECK node up to date, which upgrades the node
+ * to DIRTY as soon as one of them produced a new value.
+ * @returns Whether the node has to be re-evaluated
+ */
+export function isStale(state: ContextState, observer: EffectFn): boolean {
+	if (observer._state === CHECK) {
+		const deps = state.effectDependencies.get(observer);
+		if (deps) {
+			for (const source of deps) {
+				const computedSource = source as SignalValue<unknown>;
+				if (computedSource._isComputed) {
+					try {
+						computedSource._refresh();
+					} catch {
+						// A failing dependency is reported by the computed value, let the node re-run and observe it
+						observer._state = DIRTY;
+					}
+				}
+				if (observer._state === DIRTY) break;
+			}
+		}
+	}
+	return observer._state !== CHECK;
+}
+
+/**
+ * Upgrades subscribers waiting on a CHECK to DIRTY after a computed value changed
+ */
+export function markChanged(subscribers: Set<WeakRef<EffectFn>>): void {
+	for (const ref of subscribers) {
+		const observer = ref.deref();
+		if (observer && observer._state === CHECK) {
+			observer._state = DIRTY;
+		}
+	}
+}
+
+/**
+ * Flushes the effects queued by a batch according to the flush strategy of the context
+ * Flushes requested while one is scheduled are coalesced
+ */
+export function requestFlush(state: ContextState): void {
+	const strategy =
+		state.flushStrategy ??
+		(typeof window !== "undefined" && typeof queueMicrotask === "function"
+			? "microtask"
+			: "sync");
+
+	if (strategy === "sync") {
 		flushEffects(state);
+		return;
+	}
+
+	if (state.flushScheduled) return;
+	state.flushScheduled = true;
+
+	const run = () => {
+		if (!state.flushScheduled) return;
+		state.flushScheduled = false;
+		flushEffects(state);
+	};
+
+	if (strategy === "microtask") {
+		queueMicrotask(run);
+	} else {
+		strategy(run);
+	}
+}
+
+/**
+ * Resolves the promises waiting for the next flush
+ */
+export function resolveFlushWaiters(state: ContextState): void {
+	if (state.flushWaiters.length === 0) return;
+	for (const resolve of state.flushWaiters.splice(0)) {
+		resolve();
 	}
 }
 
@@ -67,23 +208,48 @@ export function queueEffects(
  * Process all queued effects
  */
 export function flushEffects(state: ContextState): void {
-	if (state.pendingNotifications.length === 0) return;
+	// A flush that ran early makes the scheduled one unnecessary
+	state.flushScheduled = false;
 
-	// Sort by priority (higher runs first)
-	const effectsToRun = [...state.pendingNotifications].sort((a, b) => {
-		return (b._priority || 0) - (a._priority || 0);
-	});
+	if (state.pendingNotifications.length === 0) {
+		resolveFlushWaiters(state);
+		return;
+	}
+
+	const startTime = startTiming(state);
+	let invoked = 0;
 
-	// Clear pending notifications before running effects to avoid cycles
-	state.pendingNotifications.length = 0;
-	state.pendingRegistry.clear();
+	// Keep flushing while effects queue further work
+	while (state.pendingNotifications.length > 0) {
+		// Sort by priority (higher runs first), computed values settle before effects
+		const effectsToRun = [...state.pendingNotifications].sort((a, b) => {
+			return (
+				(b._priority || 0) - (a._priority || 0) ||
+				Number(Boolean(b._isComputed)) - Number(Boolean(a._isComputed))
+			);
+		});
 
-	// Run each effect, skipping disposed ones
-	for (const effect of effectsToRun) {
-		if (!effect._disposed) {
-			effect();
+		// Clear pending notifications before running effects to avoid cycles
+		state.pendingNotifications.length = 0;
+		state.pendingRegistry.clear();
+
+		// Run each effect, skipping disposed ones
+		// Effects and computed values resolve their own state when invoked
+		for (const effect of effectsToRun) {
+			if (!effect._disposed) {
+				invoked++;
+				effect();
+			}
 		}
 	}
+
+	if (isInstrumented(state)) {
+		emitHook(state, "onFlush", {
+			effects: invoked,
+			duration: elapsedSince(startTime),
+		});
+	}
+	resolveFlushWaiters(state);
 }
 
 /**
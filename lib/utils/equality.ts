@@ -0,0 +1,128 @@
+/**
+ * Compares two values using `Object.is` semantics.
+ * This is the default comparator used by signals and computed values.
+ */
+export function strictEqual<T>(a: T, b: T): boolean {
+	return Object.is(a, b);
+}
+
+/**
+ * Compares two values one level deep.
+ * Arrays are equal when their items are strictly equal, plain objects when their own keys hold strictly equal values.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+	if (Object.is(a, b)) return true;
+	if (!isObjectLike(a) || !isObjectLike(b)) return false;
+
+	if (Array.isArray(a)) {
+		if (!Array.isArray(b) || a.length !== b.length) return false;
+		return a.every((item, index) => Object.is(item, b[index]));
+	}
+
+	if (Array.isArray(b) || !isPlainObject(a) || !isPlainObject(b)) return false;
+
+	const recordA = a as Record<string, unknown>;
+	const recordB = b as Record<string, unknown>;
+	const keysA = Object.keys(recordA);
+	if (keysA.length !== Object.keys(recordB).length) return false;
+
+	return keysA.every(
+		(key) =>
+			Object.hasOwn(recordB, key) && Object.is(recordA[key], recordB[key]),
+	);
+}
+
+/**
+ * Compares two values structurally.
+ * Supports arrays, plain objects, `Date`, `RegExp`, `Map` and `Set`, and is safe for circular references.
+ * `Map` keys are matched by identity, `Set` members structurally.
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+	return compareDeep(a, b, new WeakMap());
+}
+
+/**
+ * Recursive structural comparison tracking visited pairs to handle cycles
+ */
+function compareDeep(
+	a: unknown,
+	b: unknown,
+	seen: WeakMap<object, object>,
+): boolean {
+	if (Object.is(a, b)) return true;
+	if (!isObjectLike(a) || !isObjectLike(b)) return false;
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+	// A pair already under comparison is assumed equal until proven otherwise
+	if (seen.get(a) === b) return true;
+	seen.set(a, b);
+
+	if (a instanceof Date) {
+		return a.getTime() === (b as Date).getTime();
+	}
+
+	if (a instanceof RegExp) {
+		return a.toString() === (b as RegExp).toString();
+	}
+
+	if (a instanceof Map) {
+		const other = b as Map<unknown, unknown>;
+		if (a.size !== other.size) return false;
+		for (const [key, value] of a) {
+			if (!other.has(key) || !compareDeep(value, other.get(key), seen)) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	if (a instanceof Set) {
+		const other = b as Set<unknown>;
+		if (a.size !== other.size) return false;
+
+		// Members missing from the other set must match a distinct structurally equal member
+		const unmatched = [...other].filter((value) => !a.has(value));
+		for (const value of a) {
+			if (other.has(value)) continue;
+			// Failed attempts must not leave pairs assumed equal, each one tracks its own cycles
+			const index = unmatched.findIndex((candidate) =>
+				compareDeep(value, candidate, new WeakMap()),
+			);
+			if (index === -1) return false;
+			unmatched.splice(index, 1);
+		}
+		return true;
+	}
+
+	if (Array.isArray(a)) {
+		const other = b as unknown[];
+		if (a.length !== other.length) return false;
+		return a.every((item, index) => compareDeep(item, other[index], seen));
+	}
+
+	const recordA = a as Record<string, unknown>;
+	const recordB = b as Record<string, unknown>;
+	const keysA = Object.keys(recordA);
+	if (keysA.length !== Object.keys(recordB).length) return false;
+
+	return keysA.every(
+		(key) =>
+			Object.hasOwn(recordB, key) &&
+			compareDeep(recordA[key], recordB[key], seen),
+	);
+}
+
+/**
+ * Checks whether a value is a non-null object
+ */
+function isObjectLike(value: unknown): value is object {
+	return typeof value === "object" && value !== null;
+}
+
+/**
+ * Checks whether a value is a plain object literal or a null-prototype object
+ */
+function isPlainObject(value: object): boolean {
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
@@ -2,4 +2,8 @@ export * from "./state";
 export * from "./effect";
 export * from "./batch";
 export * from "./dependency";
+export * from "./equality";
 export * from "./tracker";
+export * from "./tracing";
+export * from "./instrumentation";
+export * from "./node";
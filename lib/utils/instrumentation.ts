@@ -0,0 +1,83 @@
+import type { ContextState, InstrumentationHooks } from "../types";
+
+/**
+ * The event received by an instrumentation hook
+ */
+type HookEvent<K extends keyof InstrumentationHooks> = Parameters<
+	NonNullable<InstrumentationHooks[K]>
+>[0];
+
+/**
+ * Checks whether any instrumentation hooks are registered with the context
+ * Used to skip measuring durations when nothing observes them
+ */
+export function isInstrumented(state: ContextState): boolean {
+	return state.hooks.length > 0;
+}
+
+/**
+ * Starts measuring a duration, only when hooks observe the context
+ * Returns undefined otherwise so the hot path never reads the clock
+ */
+export function startTiming(state: ContextState): number | undefined {
+	return isInstrumented(state) ? performance.now() : undefined;
+}
+
+/**
+ * Returns the time elapsed since a measurement started, 0 when it was not measured
+ */
+export function elapsedSince(startTime: number | undefined): number {
+	return startTime === undefined ? 0 : performance.now() - startTime;
+}
+
+/**
+ * Registers a set of instrumentation hooks with the context
+ * Returns a function unregistering them
+ */
+export function addHooks(
+	state: ContextState,
+	hooks: InstrumentationHooks,
+): () => void {
+	state.hooks.push(hooks);
+	return () => {
+		const index = state.hooks.indexOf(hooks);
+		if (index !== -1) state.hooks.splice(index, 1);
+	};
+}
+
+/**
+ * Registers internal listeners of signal writes and batches with the context
+ * They are called like hooks without making the context instrumented
+ * Returns a function unregistering them
+ */
+export function addListeners(
+	state: ContextState,
+	listeners: Pick<InstrumentationHooks, "onSignalWrite" | "onBatchEnd">,
+): () => void {
+	state.listeners.push(listeners);
+	return () => {
+		const index = state.listeners.indexOf(listeners);
+		if (index !== -1) state.listeners.splice(index, 1);
+	};
+}
+
+/**
+ * Calls a hook of every registered set of instrumentation hooks and listeners, logging errors
+ */
+export function emitHook<K extends keyof InstrumentationHooks>(
+	state: ContextState,
+	name: K,
+	event: HookEvent<K>,
+): void {
+	if (state.hooks.length === 0 && state.listeners.length === 0) return;
+
+	for (const hooks of [...state.listeners, ...state.hooks]) {
+		const hook = hooks[name] as ((event: HookEvent<K>) => void) | undefined;
+		if (!hook) continue;
+		try {
+			hook(event);
+		} catch (error) {
+			console.error(`Error in ${name} hook:`, error);
+		}
+	}
+}
@@ -0,0 +1,19 @@
+import type { SignalBase } from "../types";
+
+// Signals tracking the properties of stores and the entries of collections
+const nodeSignals = new WeakSet<SignalBase>();
+
+/**
+ * Marks a signal as the node of a store or collection, whose state is kept outside of it
+ */
+export function markNode<T extends SignalBase>(signal: T): T {
+	nodeSignals.add(signal);
+	return signal;
+}
+
+/**
+ * Checks if a signal is the node of a store or collection
+ */
+export function isNode(signal: SignalBase): boolean {
+	return nodeSignals.has(signal);
+}
@@ -13,9 +13,17 @@ export function createReactiveState(id: string): ContextState {
 		executionContext: [],
 		effectDependencies: new Map(),
 		effects: new Set(),
+		computeds: new Set(),
 		signals: new WeakSet(),
 		batchDepth: 0,
 		currentExecutingEffect: null,
 		parentChildEffectsMap: new WeakMap(),
+		disposed: false,
+		tracing: null,
+		hooks: [],
+		listeners: [],
+		flushStrategy: undefined,
+		flushScheduled: false,
+		flushWaiters: [],
 	};
 }
@@ -0,0 +1,42 @@
+import type { ChangeRecord, ContextState, EffectFn } from "../types";
+
+/**
+ * Records a change on the subscribers it notifies when tracing is enabled for the context
+ */
+export function recordChange(
+	state: ContextState,
+	subscribers: Set<WeakRef<EffectFn>>,
+	change: Omit<ChangeRecord, "stack" | "timestamp">,
+): void {
+	if (!state.tracing) return;
+
+	const record: ChangeRecord = {
+		...change,
+		stack: state.tracing.stack ? captureStack() : undefined,
+		timestamp: Date.now(),
+	};
+
+	for (const ref of subscribers) {
+		const observer = ref.deref();
+		if (observer) {
+			observer._causes ??= [];
+			observer._causes.push(record);
+		}
+	}
+}
+
+/**
+ * Takes the changes recorded on an observer since its latest run
+ */
+export function takeCauses(observer: EffectFn): ChangeRecord[] {
+	const causes = observer._causes ?? [];
+	observer._causes = undefined;
+	return causes;
+}
+
+/**
+ * Captures the current stack trace without the error header line
+ */
+function captureStack(): string | undefined {
+	return new Error().stack?.split("\n").slice(1).join("\n");
+}
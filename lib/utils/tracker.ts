@@ -5,6 +5,9 @@ import type { ContextState, EffectFn } from "../types";
  */
 export const NOT_TRACKING = Symbol.for("not-tracking");
 
+// Context state each tracker was first activated in, where its dependencies are recorded
+const trackerStates = new WeakMap<EffectFn, ContextState>();
+
 /**
  * Checks if there's an active tracker (effect or computation)
  */
@@ -28,5 +31,40 @@ export function setActiveTracker(
 	state: ContextState,
 	tracker: EffectFn | symbol | null,
 ): void {
+	if (typeof tracker === "function" && !trackerStates.has(tracker)) {
+		trackerStates.set(tracker, state);
+	}
 	state.activeTracker = tracker === null ? NOT_TRACKING : tracker;
 }
+
+/**
+ * Gets the context state that records the dependencies of a tracker
+ */
+export function getTrackerState(
+	state: ContextState,
+	tracker: EffectFn,
+): ContextState {
+	return trackerStates.get(tracker) ?? state;
+}
+
+/**
+ * Carries the caller's active tracker into a state that is not tracking,
+ * so reads in another context still register with the running effect.
+ * Returns a function restoring the state's own tracker.
+ */
+export function inheritTracker(
+	state: ContextState,
+	caller: ContextState,
+): () => void {
+	if (
+		state === caller ||
+		hasActiveTracker(state) ||
+		!hasActiveTracker(caller)
+	) {
+		return () => {};
+	}
+	state.activeTracker = caller.activeTracker;
+	return () => {
+		state.activeTracker = NOT_TRACKING;
+	};
+}
@@ -0,0 +1,146 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  createContext,
+  effect,
+  flushSync,
+  signal,
+  tick,
+  withContext,
+} from "../../lib";
+
+export const batchFlush = () =>
+  describe("flush strategy", () => {
+    test("should flush synchronously with the sync strategy", () => {
+      const ctx = createContext({ flush: "sync" });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should flush in a microtask with the microtask strategy", async () => {
+      const ctx = createContext({ flush: "microtask" });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+      ctx.batch(() => count.set(2));
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      await Promise.resolve();
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(2);
+    });
+
+    test("should coalesce flushes with a custom strategy", () => {
+      const flushes: Array<() => void> = [];
+      const ctx = createContext({ flush: (flush) => flushes.push(flush) });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+      ctx.batch(() => count.set(2));
+      expect(flushes).toHaveLength(1);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      flushes[0]();
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(2);
+    });
+
+    test("should change the strategy of an existing context", () => {
+      const ctx = createContext({ flush: "microtask" });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.setFlushStrategy("sync");
+      ctx.batch(() => count.set(1));
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should run pending effects immediately with flushSync", () => {
+      const ctx = createContext({ flush: "microtask" });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+      withContext(ctx, flushSync);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should not run effects twice when flushSync precedes a scheduled flush", () => {
+      const flushes: Array<() => void> = [];
+      const ctx = createContext({ flush: (flush) => flushes.push(flush) });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+      withContext(ctx, flushSync);
+      flushes[0]();
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should resolve tick after the next flush", async () => {
+      const flushes: Array<() => void> = [];
+      const ctx = createContext({ flush: (flush) => flushes.push(flush) });
+      const count = ctx.signal(0);
+      const effectMock = mock(() => count());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => count.set(1));
+
+      const resolved = mock();
+      const pending = withContext(ctx, tick).then(resolved);
+
+      await Promise.resolve();
+      expect(resolved).not.toHaveBeenCalled();
+
+      flushes[0]();
+      await pending;
+      expect(resolved).toHaveBeenCalledTimes(1);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should resolve tick waiting inside a batch once it ends", async () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+      effect(effectMock);
+
+      let pending: Promise<void> | undefined;
+      batch(() => {
+        count.set(1);
+        pending = tick();
+      });
+
+      await pending;
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should resolve tick right away when nothing is pending", async () => {
+      await expect(tick()).resolves.toBeUndefined();
+    });
+
+    test("should resolve tick when the context is disposed", async () => {
+      const flushes: Array<() => void> = [];
+      const ctx = createContext({ flush: (flush) => flushes.push(flush) });
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+
+      ctx.batch(() => count.set(1));
+      const pending = withContext(ctx, tick);
+      ctx.dispose();
+
+      await expect(pending).resolves.toBeUndefined();
+    });
+  });
@@ -3,6 +3,7 @@ import { signal } from "../../lib";
 import {} from "../setup";
 import { batchBasic } from "./batch.basic";
 import { batchAdvanced } from "./batch.advanced";
+import { batchFlush } from "./batch.flush";
 
 // Create a counter signal that will be used across all tests
 const count = signal(0);
@@ -13,4 +14,5 @@ describe("batch", () => {
 
   batchBasic(count);
   batchAdvanced(count);
+  batchFlush();
 });
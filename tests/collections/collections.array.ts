@@ -0,0 +1,84 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, effect, signalArray } from "../../lib";
+
+export const collectionsArray = () =>
+  describe("signalArray", () => {
+    test("should behave like an array", () => {
+      const array = signalArray([1, 2]);
+
+      expect(array.push(3, 4)).toBe(4);
+      expect(array.pop()).toBe(4);
+      expect(array.unshift(0)).toBe(4);
+      expect(array.shift()).toBe(0);
+      expect(array.splice(1, 1, 5, 6)).toEqual([2]);
+      expect(array.toArray()).toEqual([1, 5, 6, 3]);
+      expect(array.length).toBe(4);
+      expect([...array]).toEqual([1, 5, 6, 3]);
+    });
+
+    test("should only re-run effects reading the changed index", () => {
+      const array = signalArray(["a", "b"]);
+      const first = mock(() => array.get(0));
+      const second = mock(() => array.get(1));
+
+      effect(first);
+      effect(second);
+      array.set(1, "c");
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+    });
+
+    test("should notify indexes shifted by a mutation", () => {
+      const array = signalArray(["a", "b", "c"]);
+      const first = mock(() => array.get(0));
+      const last = mock(() => array.get(2));
+
+      effect(first);
+      effect(last);
+      array.splice(1, 1);
+
+      // Only the index whose item changed is notified
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(last).toHaveBeenCalledTimes(2);
+      expect(array.get(2)).toBeUndefined();
+    });
+
+    test("should only update length when it changes", () => {
+      const array = signalArray([1, 2]);
+      const length = mock(() => array.length);
+
+      effect(length);
+      array.set(0, 5);
+      expect(length).toHaveBeenCalledTimes(1);
+
+      array.push(3);
+      expect(length).toHaveBeenCalledTimes(2);
+    });
+
+    test("should batch bulk mutations", () => {
+      const array = signalArray<number>();
+      const items = mock(() => array.toArray());
+      const sum = computed(() => array.toArray().reduce((a, b) => a + b, 0));
+
+      effect(items);
+      array.push(1, 2, 3);
+      expect(items).toHaveBeenCalledTimes(2);
+      expect(sum()).toBe(6);
+
+      array.replace([4, 5]);
+      expect(items).toHaveBeenCalledTimes(3);
+      expect(sum()).toBe(9);
+    });
+
+    test("should skip writes of equal items", () => {
+      const array = signalArray([1]);
+      const items = mock(() => array.toArray());
+
+      effect(items);
+      array.set(0, 1);
+      array.replace([1]);
+
+      expect(items).toHaveBeenCalledTimes(1);
+    });
+  });
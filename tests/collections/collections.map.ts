@@ -0,0 +1,176 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  computed,
+  createContext,
+  effect,
+  signalMap,
+  withContext,
+} from "../../lib";
+
+// Creates a map in the given context
+const withMap = (ctx: ReturnType<typeof createContext>) =>
+  withContext(ctx, () => signalMap<string, number>());
+
+export const collectionsMap = () =>
+  describe("signalMap", () => {
+    test("should behave like a map", () => {
+      const map = signalMap([["a", 1]]);
+
+      map.set("b", 2);
+      expect(map.get("b")).toBe(2);
+      expect(map.has("a")).toBe(true);
+      expect(map.size).toBe(2);
+      expect([...map]).toEqual([
+        ["a", 1],
+        ["b", 2],
+      ]);
+
+      expect(map.delete("a")).toBe(true);
+      expect(map.delete("a")).toBe(false);
+      expect([...map.keys()]).toEqual(["b"]);
+    });
+
+    test("should only re-run effects reading the changed key", () => {
+      const map = signalMap([
+        ["a", 1],
+        ["b", 2],
+      ]);
+      const readA = mock(() => map.get("a"));
+      const readB = mock(() => map.get("b"));
+
+      effect(readA);
+      effect(readB);
+      map.set("b", 3);
+
+      expect(readA).toHaveBeenCalledTimes(1);
+      expect(readB).toHaveBeenCalledTimes(2);
+    });
+
+    test("should track keys that don't exist yet", () => {
+      const map = signalMap<string, number>();
+      const has = mock(() => map.has("a"));
+
+      effect(has);
+      map.set("a", 1);
+      map.delete("a");
+
+      expect(has).toHaveBeenCalledTimes(3);
+    });
+
+    test("should only update size when keys are added or removed", () => {
+      const map = signalMap([["a", 1]]);
+      const size = mock(() => map.size);
+
+      effect(size);
+      map.set("a", 2);
+      expect(size).toHaveBeenCalledTimes(1);
+
+      map.set("b", 1);
+      expect(size).toHaveBeenCalledTimes(2);
+    });
+
+    test("should track every change when iterating", () => {
+      const map = signalMap([["a", 1]]);
+      const total = computed(() => {
+        let sum = 0;
+        map.forEach((value) => (sum += value));
+        return sum;
+      });
+
+      expect(total()).toBe(1);
+      map.set("a", 5);
+      expect(total()).toBe(5);
+    });
+
+    test("should skip equal values", () => {
+      const map = signalMap([["a", 1]]);
+      const read = mock(() => map.get("a"));
+
+      effect(read);
+      map.set("a", 1);
+
+      expect(read).toHaveBeenCalledTimes(1);
+    });
+
+    test("should batch bulk mutations", () => {
+      const map = signalMap<string, number>();
+      const entries = mock(() => [...map.entries()]);
+
+      effect(entries);
+      map.setAll([
+        ["a", 1],
+        ["b", 2],
+      ]);
+      expect(entries).toHaveBeenCalledTimes(2);
+
+      map.clear();
+      expect(entries).toHaveBeenCalledTimes(3);
+      expect(map.size).toBe(0);
+    });
+
+    test("should defer notifications inside batch", () => {
+      const map = signalMap<string, number>();
+      const read = mock(() => map.get("a"));
+
+      effect(read);
+      batch(() => {
+        map.set("a", 1);
+        map.set("a", 2);
+      });
+
+      expect(read).toHaveBeenCalledTimes(2);
+      expect(map.get("a")).toBe(2);
+    });
+
+    test("should not create nodes for untracked reads", () => {
+      const ctx = createContext();
+      const created = mock();
+      ctx.instrument({ onSignalCreate: created });
+      const map = withMap(ctx);
+
+      for (let i = 0; i < 1000; i++) {
+        map.has(`missing-${i}`);
+        map.get(`missing-${i}`);
+      }
+
+      expect(created).not.toHaveBeenCalled();
+    });
+
+    test("should release nodes once nothing reads them", () => {
+      const ctx = createContext();
+      const created = mock();
+      ctx.instrument({ onSignalCreate: created });
+      const map = withMap(ctx);
+
+      const dispose = ctx.effect(() => map.get("a"));
+      expect(created).toHaveBeenCalledTimes(1);
+
+      dispose();
+      map.set("a", 1);
+
+      // The released node is created again for a new reader
+      const read = mock(() => map.get("a"));
+      ctx.effect(read);
+      expect(created).toHaveBeenCalledTimes(2);
+
+      map.set("a", 2);
+      expect(read).toHaveBeenCalledTimes(2);
+    });
+
+    test("should sweep nodes without readers as new keys are read", () => {
+      const ctx = createContext();
+      const created = mock();
+      ctx.instrument({ onSignalCreate: created });
+      const map = withMap(ctx);
+
+      for (let i = 0; i < 100; i++) {
+        ctx.effect(() => map.get(`key-${i}`))();
+      }
+      created.mockClear();
+
+      // Every node was swept except the latest ones, reading an old key creates it again
+      ctx.effect(() => map.get("key-0"));
+      expect(created).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -0,0 +1,61 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, effect, signalSet } from "../../lib";
+
+export const collectionsSet = () =>
+  describe("signalSet", () => {
+    test("should behave like a set", () => {
+      const set = signalSet([1, 2]);
+
+      set.add(2).add(3);
+      expect(set.size).toBe(3);
+      expect(set.has(3)).toBe(true);
+      expect([...set]).toEqual([1, 2, 3]);
+
+      expect(set.delete(1)).toBe(true);
+      expect(set.delete(1)).toBe(false);
+      expect([...set.values()]).toEqual([2, 3]);
+    });
+
+    test("should only re-run effects checking the changed value", () => {
+      const selected = signalSet<string>();
+      const isA = mock(() => selected.has("a"));
+      const isB = mock(() => selected.has("b"));
+
+      effect(isA);
+      effect(isB);
+      selected.add("b");
+
+      expect(isA).toHaveBeenCalledTimes(1);
+      expect(isB).toHaveBeenCalledTimes(2);
+    });
+
+    test("should not notify when adding an existing value", () => {
+      const set = signalSet([1]);
+      const size = mock(() => set.size);
+
+      effect(size);
+      set.add(1);
+
+      expect(size).toHaveBeenCalledTimes(1);
+    });
+
+    test("should batch bulk mutations", () => {
+      const set = signalSet<number>();
+      const values = mock(() => [...set]);
+      const sum = computed(() => {
+        let total = 0;
+        set.forEach((value) => (total += value));
+        return total;
+      });
+
+      effect(values);
+      set.addAll([1, 2, 3]);
+
+      expect(values).toHaveBeenCalledTimes(2);
+      expect(sum()).toBe(6);
+
+      set.clear();
+      expect(values).toHaveBeenCalledTimes(3);
+      expect(sum()).toBe(0);
+    });
+  });
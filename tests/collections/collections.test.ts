@@ -0,0 +1,10 @@
+import { describe } from "bun:test";
+import { collectionsMap } from "./collections.map";
+import { collectionsSet } from "./collections.set";
+import { collectionsArray } from "./collections.array";
+
+describe("collections", () => {
+  collectionsArray();
+  collectionsMap();
+  collectionsSet();
+});
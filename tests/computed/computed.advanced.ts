@@ -80,11 +80,11 @@ export const computedAdvanced = (
 
       expect(mockSideEffect).toHaveBeenCalledTimes(1);
       expect(myComputed()).toBe(2);
-      expect(mockSideEffect).toHaveBeenCalledTimes(2);
+      expect(mockSideEffect).toHaveBeenCalledTimes(1);
 
       a.set(2);
       expect(myComputed()).toBe(4);
-      expect(mockSideEffect).toHaveBeenCalledTimes(4);
+      expect(mockSideEffect).toHaveBeenCalledTimes(2);
     });
 
     test("should handle dependencies that change conditionally", () => {
@@ -27,20 +27,21 @@ export const computedBasic = (
       // (implementation detail, could vary)
       expect(computeFn).toHaveBeenCalledTimes(1);
 
-      // First access - should cause a computation
+      // First access - uses the value computed on creation
       expect(doubled()).toBe(2);
-      expect(computeFn).toHaveBeenCalledTimes(2);
+      expect(computeFn).toHaveBeenCalledTimes(1);
 
       // Update dependency but don't access computed yet
       count.set(2);
+      expect(computeFn).toHaveBeenCalledTimes(1);
 
       // Now access - this should trigger recomputation
       expect(doubled()).toBe(4);
-      expect(computeFn).toHaveBeenCalledTimes(4);
+      expect(computeFn).toHaveBeenCalledTimes(2);
 
       // Accessing again without changes shouldn't trigger recomputation
       expect(doubled()).toBe(4);
-      expect(computeFn).toHaveBeenCalledTimes(4);
+      expect(computeFn).toHaveBeenCalledTimes(2);
     });
 
     test("should ensure computed values properly detect and handle reads of stale dependencies", () => {
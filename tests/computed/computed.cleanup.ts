@@ -0,0 +1,34 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, onCleanup, signal } from "../../lib";
+
+export const computedCleanup = () =>
+  describe("cleanup", () => {
+    test("should run onCleanup before re-evaluating", () => {
+      const source = signal(1);
+      const calls: string[] = [];
+
+      const doubled = computed(() => {
+        const value = source();
+        onCleanup(() => calls.push(`cleanup ${value}`));
+        return value * 2;
+      });
+
+      source.set(2);
+      expect(calls).toEqual([]);
+
+      // Cleanups run lazily, right before the next evaluation
+      expect(doubled()).toBe(4);
+      expect(calls).toEqual(["cleanup 1"]);
+    });
+
+    test("should run onCleanup when disposed", () => {
+      const cleanup = mock();
+      const value = computed(() => {
+        onCleanup(cleanup);
+        return 1;
+      });
+
+      value._cleanup();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
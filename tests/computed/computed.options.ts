@@ -5,6 +5,7 @@ import { computedKeepAlive } from "./options/computed.keepAlive";
 import { computedOnError } from "./options/computed.onError";
 import { computedOnComputed } from "./options/computed.onComputed";
 import { computedCombinations } from "./options/computed.combinations";
+import { computedEquals } from "./options/computed.equals";
 
 export const computedOptions = (
   count: Signal<number>,
@@ -21,4 +22,5 @@ export const computedOptions = (
     computedOnError(count);
     computedOnComputed(count);
     computedCombinations(count);
+    computedEquals();
   });
@@ -0,0 +1,111 @@
+import { describe, test, expect } from "bun:test";
+import { computed, signal } from "../../lib";
+
+export const computedPrevious = () =>
+  describe("previous value", () => {
+    test("should receive undefined on the first run", () => {
+      const count = signal(1);
+      const received: Array<number | undefined> = [];
+      const value = computed<number>((previous) => {
+        received.push(previous);
+        return count();
+      });
+
+      expect(value()).toBe(1);
+      expect(received).toEqual([undefined]);
+    });
+
+    test("should receive the previous computed value", () => {
+      const amount = signal(5);
+      const total = computed((previous: number | undefined) => {
+        return (previous ?? 0) + amount();
+      });
+
+      expect(total()).toBe(5);
+      amount.set(3);
+      expect(total()).toBe(8);
+      amount.set(2);
+      expect(total()).toBe(10);
+    });
+
+    test("should start from the initial option", () => {
+      const amount = signal(5);
+      const total = computed((previous) => previous + amount(), {
+        initial: 100,
+      });
+
+      expect(total()).toBe(105);
+      amount.set(1);
+      expect(total()).toBe(106);
+    });
+
+    test("should type the previous value as defined with an initial value", () => {
+      const count = signal(1);
+
+      // The type assertions are checked by the type-check, not at runtime
+      const withInitial = computed(
+        (previous) => {
+          const defined: number = previous;
+          return defined + count();
+        },
+        { initial: 0 }
+      );
+      const withoutInitial = computed<number>((previous) => {
+        // @ts-expect-error previous is undefined on the first run
+        const defined: number = previous;
+        return (defined ?? 0) + count();
+      });
+
+      expect(withInitial()).toBe(1);
+      expect(withoutInitial()).toBe(1);
+    });
+
+    test("should keep the last non-null value", () => {
+      const source = signal<string | null>("a");
+      const lastValue = computed((previous) => source() ?? previous);
+
+      expect(lastValue()).toBe("a");
+      source.set(null);
+      expect(lastValue()).toBe("a");
+      source.set("b");
+      expect(lastValue()).toBe("b");
+    });
+
+    test("should keep the array identity when contents are equal", () => {
+      const items = signal([1, 2, 3]);
+      const evens = computed((previous: number[] | undefined) => {
+        const next = items().filter((item) => item % 2 === 0);
+        return previous &&
+          previous.length === next.length &&
+          previous.every((item, i) => item === next[i])
+          ? previous
+          : next;
+      });
+
+      const first = evens();
+      items.set([1, 2, 3, 5]);
+      expect(evens()).toBe(first);
+      items.set([2, 4]);
+      expect(evens()).toEqual([2, 4]);
+    });
+
+    test("should receive the last successful value after an error", () => {
+      const count = signal(1);
+      const received: Array<number | undefined> = [];
+      const value = computed<number>(
+        (previous) => {
+          received.push(previous);
+          if (count() < 0) throw new Error("negative");
+          return count();
+        },
+        { onError: () => {} }
+      );
+
+      value();
+      count.set(-1);
+      value();
+      count.set(2);
+      expect(value()).toBe(2);
+      expect(received).toEqual([undefined, 1, 1]);
+    });
+  });
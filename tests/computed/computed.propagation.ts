@@ -0,0 +1,155 @@
+import { describe, test, expect, mock } from "bun:test";
+import { signal, computed, effect, batch } from "../../lib";
+
+export const computedPropagation = () =>
+  describe("propagation", () => {
+    test("should evaluate a diamond once per change", () => {
+      // A -> B, A -> C, D = B + C
+      const a = signal(1);
+      const bFn = mock(() => a() * 2);
+      const cFn = mock(() => a() + 10);
+      const b = computed(bFn);
+      const c = computed(cFn);
+      const dFn = mock(() => b() + c());
+      const d = computed(dFn);
+
+      effect(() => {
+        d();
+      });
+
+      bFn.mockClear();
+      cFn.mockClear();
+      dFn.mockClear();
+
+      a.set(5);
+
+      expect(bFn).toHaveBeenCalledTimes(1);
+      expect(cFn).toHaveBeenCalledTimes(1);
+      expect(dFn).toHaveBeenCalledTimes(1);
+      expect(d()).toBe(25);
+    });
+
+    test("should never expose torn values to effects", () => {
+      // Effects reading both branches of a diamond always see a consistent snapshot
+      const a = signal(1);
+      const b = computed(() => a() * 2);
+      const c = computed(() => a() * 3);
+      const seen: Array<[number, number, number]> = [];
+
+      effect(() => {
+        seen.push([a(), b(), c()]);
+      });
+
+      a.set(2);
+      a.set(3);
+
+      expect(seen).toEqual([
+        [1, 2, 3],
+        [2, 4, 6],
+        [3, 6, 9],
+      ]);
+    });
+
+    test("should run an effect once when several branches change", () => {
+      const first = signal("John");
+      const last = signal("Doe");
+      const full = computed(() => `${first()} ${last()}`);
+      const initials = computed(() => `${first()[0]}${last()[0]}`);
+      const effectMock = mock();
+
+      effect(() => {
+        effectMock(full(), initials());
+      });
+
+      batch(() => {
+        first.set("Jane");
+        last.set("Smith");
+      });
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock).toHaveBeenLastCalledWith("Jane Smith", "JS");
+    });
+
+    test("should not re-run effects when a computed dependency is unchanged", () => {
+      // Effects that only depend on computed values are checked before running
+      const a = signal(2);
+      const isEven = computed(() => a() % 2 === 0);
+      const effectMock = mock();
+
+      effect(() => {
+        isEven();
+        effectMock();
+      });
+
+      a.set(4);
+      a.set(6);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      a.set(7);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should stop evaluation at an unchanged computed in a long chain", () => {
+      const a = signal(1);
+      const clamped = computed(() => Math.min(a(), 10));
+      const tailFns = [mock(), mock(), mock()];
+      let tail = clamped;
+      for (const fn of tailFns) {
+        const previous = tail;
+        tail = computed(() => {
+          fn();
+          return previous() + 1;
+        });
+      }
+
+      effect(() => {
+        tail();
+      });
+
+      a.set(20);
+      expect(tail()).toBe(13);
+
+      for (const fn of tailFns) fn.mockClear();
+
+      // The clamp absorbs the change, nothing downstream is evaluated
+      a.set(30);
+      for (const fn of tailFns) {
+        expect(fn).not.toHaveBeenCalled();
+      }
+    });
+
+    test("should evaluate a shared computed once for multiple readers", () => {
+      const a = signal(1);
+      const sharedFn = mock(() => a() * 2);
+      const shared = computed(sharedFn);
+      const left = computed(() => shared() + 1);
+      const right = computed(() => shared() - 1);
+
+      effect(() => {
+        left();
+        right();
+      });
+
+      sharedFn.mockClear();
+      a.set(2);
+
+      expect(sharedFn).toHaveBeenCalledTimes(1);
+      expect(left()).toBe(5);
+      expect(right()).toBe(3);
+    });
+
+    test("should evaluate keepAlive computed values once per change in a diamond", () => {
+      const a = signal(1);
+      const b = computed(() => a() + 1);
+      const c = computed(() => a() + 2);
+      const dFn = mock(() => b() * c());
+      const d = computed(dFn, { keepAlive: true });
+
+      dFn.mockClear();
+      a.set(2);
+
+      expect(dFn).toHaveBeenCalledTimes(1);
+      expect(d()).toBe(12);
+      expect(dFn).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -5,7 +5,11 @@ import { computedOptions } from "./computed.options";
 import { computed, signal } from "../../lib";
 import { computedEquality } from "./computed.equality";
 import { computedAsync } from "./computed.async";
+import { computedCleanup } from "./computed.cleanup";
 import { computedPerformance } from "./computed.performance";
+import { computedPrevious } from "./computed.previous";
+import { computedPropagation } from "./computed.propagation";
+import { computedWritable } from "./computed.writable";
 
 // Create shared test fixtures used across all test suites
 const count = signal(1);
@@ -19,7 +23,11 @@ describe("computed", () => {
   computedAdvanced(count, doubled);
   computedAsync();
   computedBasic(count, doubled);
+  computedCleanup();
   computedEquality();
   computedOptions(count, doubled);
   computedPerformance();
+  computedPrevious();
+  computedPropagation();
+  computedWritable();
 });
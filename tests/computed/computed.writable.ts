@@ -0,0 +1,150 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  computed,
+  createContext,
+  effect,
+  signal,
+  store,
+  transaction,
+} from "../../lib";
+import { warnSpy } from "../setup";
+
+export const computedWritable = () =>
+  describe("writable", () => {
+    test("should route writes to the setter", () => {
+      const celsius = signal(0);
+      const fahrenheit = computed({
+        get: () => (celsius() * 9) / 5 + 32,
+        set: (value) => celsius.set(((value - 32) * 5) / 9),
+      });
+
+      expect(fahrenheit()).toBe(32);
+
+      fahrenheit.set(212);
+      expect(celsius()).toBe(100);
+      expect(fahrenheit()).toBe(212);
+
+      celsius.set(-40);
+      expect(fahrenheit()).toBe(-40);
+    });
+
+    test("should update from the current value", () => {
+      const count = signal(1);
+      const doubled = computed({
+        get: () => count() * 2,
+        set: (value) => count.set(value / 2),
+      });
+
+      doubled.update((value) => value + 4);
+      expect(count()).toBe(3);
+      expect(doubled()).toBe(6);
+    });
+
+    test("should batch the writes made by the setter", () => {
+      const first = signal("John");
+      const last = signal("Doe");
+      const fullName = computed({
+        get: () => `${first()} ${last()}`,
+        set: (value) => {
+          const [nextFirst, nextLast] = value.split(" ");
+          first.set(nextFirst);
+          last.set(nextLast);
+        },
+      });
+
+      const effectMock = mock(() => fullName());
+      effect(effectMock);
+
+      fullName.set("Jane Smith");
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe("Jane Smith");
+    });
+
+    test("should not track reads made by the setter", () => {
+      const source = signal(0);
+      const other = signal(0);
+      const value = computed({
+        get: () => source(),
+        set: (next) => source.set(next + other()),
+      });
+
+      const effectMock = mock(() => value.set(1));
+      effect(effectMock);
+
+      other.set(1);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should map a field onto a nested store property", () => {
+      const [state, setStore] = store({ user: { profile: { name: "John" } } });
+      const name = computed({
+        get: () => state.user.profile.name,
+        set: (value) => setStore("user", "profile", "name", value),
+      });
+
+      const effectMock = mock(() => name());
+      effect(effectMock);
+
+      name.set("Jane");
+
+      expect(state.user.profile.name).toBe("Jane");
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe("Jane");
+    });
+
+    test("should roll back writes made in a transaction", () => {
+      const count = signal(1);
+      const doubled = computed({
+        get: () => count() * 2,
+        set: (value) => count.set(value / 2),
+      });
+
+      transaction((rollback) => {
+        doubled.set(10);
+        rollback();
+      });
+
+      expect(count()).toBe(1);
+      expect(doubled()).toBe(2);
+    });
+
+    test("should ignore writes once disposed", () => {
+      const spy = warnSpy();
+      const count = signal(1);
+      const setterMock = mock((value: number) => count.set(value));
+      const value = computed({ get: () => count(), set: setterMock });
+
+      value._cleanup();
+      value.set(5);
+
+      expect(setterMock).not.toHaveBeenCalled();
+      expect(count()).toBe(1);
+      expect(spy).toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
+    test("should write in the context the computed value belongs to", () => {
+      const ctx = createContext();
+      const count = ctx.signal(1);
+      const doubled = ctx.computed({
+        get: () => count() * 2,
+        set: (value) => count.set(value / 2),
+      });
+
+      const effectMock = mock(() => doubled());
+      ctx.effect(effectMock);
+
+      doubled.set(8);
+
+      expect(count()).toBe(4);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should keep read-only computed values without a setter", () => {
+      const count = signal(1);
+      const doubled = computed(() => count() * 2);
+
+      expect("set" in doubled).toBe(false);
+    });
+  });
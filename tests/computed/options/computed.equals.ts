@@ -0,0 +1,86 @@
+import { describe, test, expect, mock } from "bun:test";
+import { signal, computed, effect, shallowEqual } from "../../../lib";
+
+export const computedEquals = () =>
+  describe("equals", () => {
+    test("should keep the cached value when recomputation is equal", () => {
+      // Structurally equal results keep the previous reference
+      const source = signal([1, 2, 3]);
+      const copy = computed(() => [...source()], { equals: shallowEqual });
+
+      const initial = copy();
+      source.set([1, 2, 3]);
+      expect(copy()).toBe(initial);
+
+      source.set([1, 2, 4]);
+      expect(copy()).not.toBe(initial);
+      expect(copy()).toEqual([1, 2, 4]);
+    });
+
+    test("should not notify effects when recomputation is equal", () => {
+      // Effects reading the computed only re-run when its value changes
+      const user = signal({ name: "John", age: 30 });
+      const profile = computed(() => ({ name: user().name }), {
+        equals: shallowEqual,
+      });
+      const effectMock = mock();
+
+      effect(() => {
+        profile();
+        effectMock();
+      });
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      // Age is not part of the profile, the effect should not re-run
+      user.set({ name: "John", age: 31 });
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      user.set({ name: "Jane", age: 31 });
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should suppress updates through chains of computed values", () => {
+      // An equal value in the middle of a chain stops propagation downstream
+      const count = signal(1);
+      const parity = computed(() => count() % 2);
+      const downstreamFn = mock(() => (parity() ? "odd" : "even"));
+      const label = computed(downstreamFn);
+      const effectMock = mock();
+
+      effect(() => {
+        label();
+        effectMock();
+      });
+
+      const callsAfterSetup = downstreamFn.mock.calls.length;
+
+      count.set(3);
+      expect(downstreamFn).toHaveBeenCalledTimes(callsAfterSetup);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      count.set(4);
+      expect(label()).toBe("even");
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should call onComputed only when the value changes", () => {
+      // Equal recomputations are not reported as new values
+      const source = signal({ id: 1 });
+      const onComputed = mock();
+      const id = computed(() => ({ id: source().id }), {
+        equals: shallowEqual,
+        keepAlive: true,
+        onComputed,
+      });
+
+      expect(id()).toEqual({ id: 1 });
+      expect(onComputed).toHaveBeenCalledTimes(1);
+
+      source.set({ id: 1 });
+      expect(onComputed).toHaveBeenCalledTimes(1);
+
+      source.set({ id: 2 });
+      expect(onComputed).toHaveBeenCalledTimes(2);
+    });
+  });
@@ -43,16 +43,15 @@ export const computedKeepAlive = (count: Signal<number>) =>
       // Update the shared dependency
       count.set(10);
 
-      // Regular's behavior may vary by implementation - expected to run for deps tracking
-      // but not necessarily value computation
-      expect(computeRegular).toHaveBeenCalledTimes(3);
+      // Regular computed values wait until they are read
+      expect(computeRegular).toHaveBeenCalledTimes(1);
 
       // keepAlive should recompute immediately when dependencies change
       expect(computeKeepAlive).toHaveBeenCalledTimes(2);
 
       // Accessing regular should trigger full computation
       expect(regular()).toBe(20);
-      expect(computeRegular).toHaveBeenCalledTimes(4);
+      expect(computeRegular).toHaveBeenCalledTimes(2);
 
       // Accessing keepAlive should use cached value
       expect(keepAlive()).toBe(30);
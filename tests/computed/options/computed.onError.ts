@@ -1,5 +1,5 @@
 import { describe, test, expect, mock } from "bun:test";
-import { signal, computed, type Signal } from "../../../lib";
+import { signal, computed, effect, type Signal } from "../../../lib";
 
 export const computedOnError = (count: Signal<number>) =>
   describe("onError", () => {
@@ -59,4 +59,33 @@ export const computedOnError = (count: Signal<number>) =>
       // Access should not propagate the error
       expect(() => failing()).not.toThrow();
     });
+
+    test("should keep notifying dependents after recovering from an error", () => {
+      // Tests that a computed value that threw once still propagates later changes
+      const source = signal(1);
+      let hasThrown = false;
+      const value = computed(
+        () => {
+          if (source() === 2 && !hasThrown) {
+            hasThrown = true;
+            throw new Error("Transient failure");
+          }
+          return source() * 10;
+        },
+        { onError: () => {} }
+      );
+
+      const logged: number[] = [];
+      effect(() => {
+        logged.push(value());
+      });
+
+      source.set(2);
+      source.set(3);
+      source.set(4);
+
+      expect(value()).toBe(40);
+      expect(logged.at(-1)).toBe(40);
+      expect(logged).toContain(30);
+    });
   });
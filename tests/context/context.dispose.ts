@@ -0,0 +1,209 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  createContext,
+  effect,
+  getContextState,
+  signal,
+  withContext,
+} from "../../lib";
+import { tick, warnSpy } from "../setup";
+
+export const contextDispose = () =>
+  describe("dispose", () => {
+    test("should dispose every effect and computed value in the context", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const doubled = ctx.computed(() => count() * 2);
+      const effectMock = mock();
+      const cleanupMock = mock();
+
+      ctx.effect(() => {
+        doubled();
+        effectMock();
+        return cleanupMock;
+      });
+
+      // Effects created through withContext belong to the context too
+      withContext(ctx, () =>
+        effect(() => {
+          count();
+          effectMock();
+        })
+      );
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+
+      const report = ctx.dispose();
+
+      expect(report.effects).toBe(2);
+      expect(report.computeds).toBe(1);
+      expect(cleanupMock).toHaveBeenCalledTimes(1);
+      expect(count._deps.size).toBe(0);
+      expect(doubled._deps.size).toBe(0);
+    });
+
+    test("should ignore writes to signals after disposal", () => {
+      const spy = warnSpy();
+      const ctx = createContext();
+      const count = ctx.signal(0, { name: "disposedCount" });
+      const effectMock = mock();
+
+      ctx.effect(() => {
+        count();
+        effectMock();
+      });
+
+      ctx.dispose();
+      count.set(5);
+
+      expect(count()).toBe(0);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toContain('"disposedCount"');
+
+      spy.mockRestore();
+    });
+
+    test("should drop pending notifications", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const effectMock = mock();
+      let report;
+
+      ctx.effect(() => {
+        count();
+        effectMock();
+      });
+
+      ctx.batch(() => {
+        count.set(1);
+        report = ctx.dispose();
+      });
+
+      expect(report!.pendingNotifications).toBe(1);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should cancel debounced runs", async () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const effectMock = mock();
+
+      ctx.effect(
+        () => {
+          count();
+          effectMock();
+        },
+        { debounce: 20 }
+      );
+
+      count.set(1);
+      const report = ctx.dispose();
+      await tick(40);
+
+      expect(report.timers).toBe(1);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should dispose nested effects once", () => {
+      const ctx = createContext();
+      const cleanupMock = mock();
+
+      ctx.effect(() => {
+        effect(() => cleanupMock);
+      });
+
+      const report = ctx.dispose();
+
+      expect(report.effects).toBe(2);
+      expect(cleanupMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not affect other contexts", () => {
+      const ctx = createContext();
+      const other = signal(0);
+      const effectMock = mock();
+
+      effect(() => {
+        other();
+        effectMock();
+      });
+
+      ctx.dispose();
+      other.set(1);
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should report nothing on repeated disposal", () => {
+      const ctx = createContext();
+      ctx.effect(() => {});
+
+      expect(ctx.dispose().effects).toBe(1);
+      expect(ctx.dispose()).toEqual({
+        id: expect.any(String),
+        effects: 0,
+        computeds: 0,
+        pendingNotifications: 0,
+        timers: 0,
+      });
+    });
+
+    test("should keep the batch depth when disposed inside a batch", () => {
+      const ctx = createContext();
+      const other = signal(0);
+      const effectMock = mock(() => other());
+      effect(effectMock);
+
+      withContext(ctx, () =>
+        ctx.batch(() => {
+          ctx.batch(() => ctx.dispose());
+          expect(getContextState(ctx).batchDepth).toBe(1);
+        })
+      );
+
+      expect(getContextState(ctx).batchDepth).toBe(0);
+
+      // Batching in the default context is unaffected
+      batch(() => {
+        other.set(1);
+        other.set(2);
+      });
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should not queue effects queued after disposal inside a batch", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const doubled = ctx.computed(() => count() * 2, { keepAlive: true });
+      const effectMock = mock(() => doubled());
+      ctx.effect(effectMock);
+
+      ctx.batch(() => {
+        ctx.dispose();
+        count._restore(5);
+      });
+
+      expect(getContextState(ctx).pendingNotifications).toHaveLength(0);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not create effects and computed values after disposal", () => {
+      const spy = warnSpy();
+      const ctx = createContext();
+      ctx.dispose();
+
+      const effectMock = mock();
+      const computeMock = mock(() => 1);
+      ctx.effect(effectMock);
+      ctx.computed(computeMock);
+
+      const state = getContextState(ctx);
+      expect(effectMock).not.toHaveBeenCalled();
+      expect(computeMock).not.toHaveBeenCalled();
+      expect(state.effects.size).toBe(0);
+      expect(state.computeds.size).toBe(0);
+      expect(spy).toHaveBeenCalledTimes(2);
+      spy.mockRestore();
+    });
+  });
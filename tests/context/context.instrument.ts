@@ -0,0 +1,148 @@
+import { describe, test, expect, mock, spyOn } from "bun:test";
+import { createContext } from "../../lib";
+import { errorSpy } from "../setup";
+
+export const contextInstrument = () =>
+  describe("instrument", () => {
+    test("should observe signal creation and writes", () => {
+      const ctx = createContext();
+      const onSignalCreate = mock();
+      const onSignalWrite = mock();
+      ctx.instrument({ onSignalCreate, onSignalWrite });
+
+      const count = ctx.signal(0, { name: "count" });
+      count.set(1);
+      count.set(1);
+
+      expect(onSignalCreate).toHaveBeenCalledWith({ signal: count });
+      expect(onSignalWrite).toHaveBeenCalledTimes(1);
+      expect(onSignalWrite).toHaveBeenCalledWith({
+        signal: count,
+        oldValue: 0,
+        newValue: 1,
+      });
+    });
+
+    test("should observe computed evaluations", () => {
+      const ctx = createContext();
+      const onComputedEvaluate = mock();
+      ctx.instrument({ onComputedEvaluate });
+
+      const count = ctx.signal(1);
+      const parity = ctx.computed(() => count() % 2);
+      count.set(3);
+      parity();
+
+      expect(onComputedEvaluate).toHaveBeenCalledTimes(2);
+      expect(onComputedEvaluate.mock.calls[0][0]).toMatchObject({
+        computed: parity,
+        value: 1,
+        changed: true,
+      });
+      expect(onComputedEvaluate.mock.calls[1][0]).toMatchObject({
+        changed: false,
+      });
+      expect(
+        onComputedEvaluate.mock.calls[1][0].duration
+      ).toBeGreaterThanOrEqual(0);
+    });
+
+    test("should observe effect runs and disposal", () => {
+      const ctx = createContext();
+      const onEffectRun = mock();
+      const onEffectDispose = mock();
+      ctx.instrument({ onEffectRun, onEffectDispose });
+
+      const count = ctx.signal(0);
+      const dispose = ctx.effect(() => count());
+      count.set(1);
+      dispose();
+
+      expect(onEffectRun).toHaveBeenCalledTimes(2);
+      expect(onEffectRun.mock.calls[0][0].effect).toBe(dispose);
+      expect(onEffectDispose).toHaveBeenCalledWith({ effect: dispose });
+    });
+
+    test("should observe batches and flushes", () => {
+      const ctx = createContext();
+      const events: string[] = [];
+      ctx.instrument({
+        onBatchStart: ({ depth }) => events.push(`start ${depth}`),
+        onBatchEnd: ({ depth }) => events.push(`end ${depth}`),
+        onFlush: ({ effects }) => events.push(`flush ${effects}`),
+      });
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+
+      ctx.batch(() => {
+        ctx.batch(() => count.set(1));
+        count.set(2);
+      });
+
+      expect(events).toEqual([
+        "start 1",
+        "start 2",
+        "end 1",
+        "end 0",
+        "flush 1",
+      ]);
+    });
+
+    test("should stop observing once unregistered", () => {
+      const ctx = createContext();
+      const onSignalWrite = mock();
+      const unregister = ctx.instrument({ onSignalWrite });
+
+      const count = ctx.signal(0);
+      count.set(1);
+      unregister();
+      count.set(2);
+
+      expect(onSignalWrite).toHaveBeenCalledTimes(1);
+    });
+
+    test("should only observe its own context", () => {
+      const ctx = createContext();
+      const other = createContext();
+      const onSignalCreate = mock();
+      ctx.instrument({ onSignalCreate });
+
+      other.signal(0);
+
+      expect(onSignalCreate).not.toHaveBeenCalled();
+    });
+
+    test("should log errors thrown by hooks", () => {
+      const spy = errorSpy();
+      const ctx = createContext();
+      const next = mock();
+      ctx.instrument({
+        onSignalWrite: () => {
+          throw new Error("Hook failed");
+        },
+      });
+      ctx.instrument({ onSignalWrite: next });
+
+      const count = ctx.signal(0);
+      count.set(1);
+
+      expect(count()).toBe(1);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
+    test("should not measure durations without hooks", () => {
+      const ctx = createContext();
+      const now = spyOn(performance, "now");
+
+      const count = ctx.signal(0);
+      const doubled = ctx.computed(() => count() * 2);
+      ctx.effect(() => doubled());
+      ctx.batch(() => count.set(1));
+
+      expect(now).not.toHaveBeenCalled();
+      now.mockRestore();
+    });
+  });
@@ -0,0 +1,196 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  createContext,
+  effect,
+  getCurrentContext,
+  signal,
+  withContext,
+  type ContextState,
+} from "../../lib";
+
+export const contextSwitching = () =>
+  describe("switching", () => {
+    test("primitives created through a context use its own state", () => {
+      const ctx = createContext();
+      const defaultState = getCurrentContext();
+      let effectState: ContextState | undefined;
+
+      const count = ctx.signal(0);
+      ctx.effect(() => {
+        count();
+        effectState = getCurrentContext();
+      });
+
+      // The effect runs inside its context and is registered on its state
+      expect(effectState).not.toBe(defaultState);
+      const ctxState = withContext(ctx, () => getCurrentContext());
+      expect(effectState).toBe(ctxState);
+      expect(ctxState.effectDependencies.size).toBe(1);
+    });
+
+    test("withContext routes plain primitives through the context", () => {
+      const ctx = createContext();
+      const effectMock = mock();
+
+      const count = withContext(ctx, () => {
+        const count = signal(0);
+        effect(() => {
+          count();
+          effectMock();
+        });
+        return count;
+      });
+
+      const ctxState = withContext(ctx, () => getCurrentContext());
+      expect(ctxState.effectDependencies.size).toBe(1);
+
+      count.set(1);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("batch depth and pending notifications are per context", () => {
+      const ctx = createContext();
+      const isolated = ctx.signal(0);
+      const global = signal(0);
+      const isolatedMock = mock();
+      const globalMock = mock();
+
+      ctx.effect(() => {
+        isolated();
+        isolatedMock();
+      });
+      effect(() => {
+        global();
+        globalMock();
+      });
+
+      // A batch in the default context does not defer the isolated context
+      batch(() => {
+        isolated.set(1);
+        expect(isolatedMock).toHaveBeenCalledTimes(2);
+
+        global.set(1);
+        expect(globalMock).toHaveBeenCalledTimes(1);
+      });
+      expect(globalMock).toHaveBeenCalledTimes(2);
+
+      // A batch in the isolated context does not defer the default context
+      ctx.batch(() => {
+        global.set(2);
+        expect(globalMock).toHaveBeenCalledTimes(3);
+
+        isolated.set(2);
+        expect(isolatedMock).toHaveBeenCalledTimes(2);
+        expect(getCurrentContext().batchDepth).toBe(1);
+      });
+      expect(isolatedMock).toHaveBeenCalledTimes(3);
+    });
+
+    test("nested effects belong to the context of their parent", () => {
+      const ctx = createContext();
+      const outer = ctx.signal(0);
+      const inner = ctx.signal(0);
+      const innerMock = mock();
+      let innerState: ContextState | undefined;
+
+      const dispose = ctx.effect(() => {
+        outer();
+        effect(() => {
+          inner();
+          innerState = getCurrentContext();
+          innerMock();
+        });
+      });
+
+      const ctxState = withContext(ctx, () => getCurrentContext());
+      expect(innerState).toBe(ctxState);
+
+      inner.set(1);
+      expect(innerMock).toHaveBeenCalledTimes(2);
+
+      // Disposing the parent disposes the nested effect in the same context
+      dispose();
+      inner.set(2);
+      expect(innerMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("interleaved contexts restore the previous context", () => {
+      const ctx1 = createContext();
+      const ctx2 = createContext();
+      const defaultState = getCurrentContext();
+      const seen: string[] = [];
+
+      withContext(ctx1, () => {
+        seen.push(getCurrentContext().id);
+        withContext(ctx2, () => {
+          seen.push(getCurrentContext().id);
+        });
+        seen.push(getCurrentContext().id);
+      });
+
+      expect(seen[0]).toBe(seen[2]);
+      expect(seen[0]).not.toBe(seen[1]);
+      expect(getCurrentContext()).toBe(defaultState);
+    });
+
+    test("effects can depend on values of other contexts", () => {
+      const ctx1 = createContext();
+      const ctx2 = createContext();
+      const source = ctx1.signal(1);
+      const derived = ctx1.computed(() => source() * 2);
+      const effectMock = mock();
+
+      // Reading another context's values tracks them like any other dependency
+      ctx2.effect(() => {
+        effectMock(derived());
+      });
+
+      source.set(2);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock).toHaveBeenLastCalledWith(4);
+
+      // Untracked reads apply to the context of the running effect
+      const untrackedMock = mock();
+      ctx2.effect(() => {
+        ctx2.untracked(() => source());
+        untrackedMock();
+      });
+      source.set(3);
+      expect(untrackedMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("reads inside another context are tracked by the running effect", () => {
+      const ctx = createContext();
+      const count = signal(0);
+      const batchMock = mock();
+      const withContextMock = mock();
+
+      effect(() => {
+        ctx.batch(() => count());
+        batchMock();
+      });
+      effect(() => {
+        withContext(ctx, () => count());
+        withContextMock();
+      });
+
+      count.set(1);
+      expect(batchMock).toHaveBeenCalledTimes(2);
+      expect(withContextMock).toHaveBeenCalledTimes(2);
+
+      // Dependencies stay on the effect's own state and the other context is left untracked
+      const ctxState = withContext(ctx, () => getCurrentContext());
+      expect(ctxState.effectDependencies.size).toBe(0);
+      expect(ctxState.activeTracker).toBe(Symbol.for("not-tracking"));
+
+      // Untracked reads inside the other context are still ignored
+      const untrackedMock = mock();
+      effect(() => {
+        ctx.untracked(() => count());
+        untrackedMock();
+      });
+      count.set(2);
+      expect(untrackedMock).toHaveBeenCalledTimes(1);
+    });
+  });
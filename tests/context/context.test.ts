@@ -1,14 +1,22 @@
 import { describe } from "bun:test";
+import { contextAPI } from "./context.api";
 import { contextIsolation } from "./context.isolation";
 import { contextReactivity } from "./context.reactivity";
 import { contextMemory } from "./context.memory";
 import { contextUtilities } from "./context.utilities";
 import { contextDefault } from "./context.default";
+import { contextDispose } from "./context.dispose";
+import { contextSwitching } from "./context.switching";
+import { contextInstrument } from "./context.instrument";
 
 describe("reactive context", () => {
+  contextAPI();
   contextIsolation();
   contextReactivity();
   contextMemory();
   contextUtilities();
   contextDefault();
+  contextDispose();
+  contextSwitching();
+  contextInstrument();
 });
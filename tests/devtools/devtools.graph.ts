@@ -0,0 +1,100 @@
+import { describe, test, expect } from "bun:test";
+import { createContext, serializeGraph } from "../../lib";
+import type { SerializedGraph } from "../../lib";
+
+const createGraph = () => {
+  const ctx = createContext();
+  const count = ctx.signal(0, { name: "count" });
+  const doubled = ctx.computed(() => count() * 2, { name: "doubled" });
+  ctx.effect(() => doubled(), { name: "logger", priority: 1 });
+  return { ctx, count };
+};
+
+export const devtoolsGraph = () =>
+  describe("serializeGraph", () => {
+    test("should serialize nodes and edges as JSON", () => {
+      const { ctx } = createGraph();
+      const graph: SerializedGraph = JSON.parse(serializeGraph(ctx));
+
+      const ids = Object.fromEntries(
+        graph.nodes.map((node) => [node.label, node.id])
+      );
+
+      expect(graph.nodes.map((node) => node.kind).sort()).toEqual([
+        "computed",
+        "effect",
+        "signal",
+      ]);
+      expect(graph.edges).toContainEqual({
+        from: ids["count"],
+        to: ids["doubled"],
+      });
+      expect(graph.edges).toContainEqual({
+        from: ids["doubled"],
+        to: ids["logger"],
+      });
+      expect(graph.nodes.find((node) => node.label === "logger")).toMatchObject(
+        { priority: 1, pending: false, disposed: false }
+      );
+    });
+
+    test("should fall back to generated ids for unnamed nodes", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+
+      const graph: SerializedGraph = JSON.parse(
+        serializeGraph(ctx, { format: "json" })
+      );
+
+      for (const node of graph.nodes) {
+        expect(node.label).toBe(node.id);
+      }
+    });
+
+    test("should serialize as DOT", () => {
+      const { ctx } = createGraph();
+      const dot = serializeGraph(ctx, { format: "dot" });
+
+      expect(dot).toStartWith("digraph reactive {");
+      expect(dot).toMatch(/"signal_\d+" \[label="count", shape=ellipse\];/);
+      expect(dot).toMatch(/label="logger \(priority 1\)", shape=hexagon/);
+      expect(dot).toMatch(/"signal_\d+" -> "computed_\d+";/);
+      expect(dot).toEndWith("}");
+    });
+
+    test("should serialize as Mermaid", () => {
+      const { ctx } = createGraph();
+      const mermaid = serializeGraph(ctx, { format: "mermaid" });
+
+      expect(mermaid).toStartWith("flowchart LR");
+      expect(mermaid).toMatch(/signal_\d+\(\["count"\]\)/);
+      expect(mermaid).toMatch(/computed_\d+\["doubled"\]/);
+      expect(mermaid).toMatch(/effect_\d+\{\{"logger \(priority 1\)"\}\}/);
+      expect(mermaid).toMatch(/computed_\d+ --> effect_\d+/);
+    });
+
+    test("should mark pending nodes", () => {
+      const { ctx, count } = createGraph();
+
+      ctx.batch(() => {
+        count.set(1);
+        const dot = serializeGraph(ctx, { format: "dot" });
+        expect(dot).toMatch(/label="logger \(priority 1, pending\)"/);
+        expect(serializeGraph(ctx, { format: "mermaid" })).toContain("class ");
+      });
+    });
+
+    test("should escape labels", () => {
+      const ctx = createContext();
+      const quoted = ctx.signal(0, { name: 'say "hi"' });
+      ctx.effect(() => quoted());
+
+      expect(serializeGraph(ctx, { format: "dot" })).toContain(
+        'label="say \\"hi\\""'
+      );
+      expect(serializeGraph(ctx, { format: "mermaid" })).toContain(
+        '"say #quot;hi#quot;"'
+      );
+    });
+  });
@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import {
+  computed,
+  createContext,
+  effect,
+  getChildren,
+  getDependencies,
+  getOwner,
+  getSubscribers,
+  listNodes,
+  signal,
+} from "../../lib";
+
+export const devtoolsIntrospection = () =>
+  describe("introspection", () => {
+    test("should list the subscribers of a signal", () => {
+      const count = signal(0, { name: "count" });
+      const doubled = computed(() => count() * 2, { name: "doubled" });
+      const dispose = effect(() => count(), { name: "logger", priority: 2 });
+
+      const subscribers = getSubscribers(count);
+
+      expect(subscribers.map((node) => [node.name, node.kind])).toEqual([
+        ["doubled", "computed"],
+        ["logger", "effect"],
+      ]);
+      expect(subscribers[1].priority).toBe(2);
+      expect(subscribers[1].ref).toBe(dispose);
+      expect(getSubscribers(doubled)).toEqual([]);
+
+      dispose();
+      expect(getSubscribers(count)).toHaveLength(1);
+    });
+
+    test("should list the dependencies of effects and computed values", () => {
+      const first = signal("John", { name: "first" });
+      const last = signal("Doe", { name: "last" });
+      const full = computed(() => `${first()} ${last()}`, { name: "full" });
+      const dispose = effect(() => full());
+
+      expect(getDependencies(full).map((node) => node.name)).toEqual([
+        "first",
+        "last",
+      ]);
+      expect(getDependencies(dispose)).toEqual([
+        expect.objectContaining({ name: "full", kind: "computed" }),
+      ]);
+    });
+
+    test("should update dependencies after dynamic changes", () => {
+      const flag = signal(true, { name: "flag" });
+      const a = signal(1, { name: "a" });
+      const b = signal(2, { name: "b" });
+      const dispose = effect(() => (flag() ? a() : b()));
+
+      flag.set(false);
+
+      expect(getDependencies(dispose).map((node) => node.name)).toEqual([
+        "flag",
+        "b",
+      ]);
+    });
+
+    test("should relate nested effects to their owner", () => {
+      let child: (() => void) | undefined;
+      const parent = effect(
+        () => {
+          child = effect(() => {}, { name: "child" });
+        },
+        { name: "parent" }
+      );
+
+      const owner = child && getOwner(child);
+      expect(owner?.name).toBe("parent");
+      expect(getOwner(parent)).toBeUndefined();
+      expect(getChildren(parent).map((node) => node.name)).toContain("child");
+    });
+
+    test("should keep node ids stable", () => {
+      const count = signal(0);
+      const dispose = effect(() => count());
+
+      const [first] = getDependencies(dispose);
+      const [second] = getDependencies(dispose);
+
+      expect(first.id).toBe(second.id);
+      expect(first.id).toStartWith("signal_");
+      expect(first).not.toBe(second);
+    });
+
+    test("should list the nodes of a context", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0, { name: "count" });
+      ctx.signal(0, { name: "unused" });
+      const doubled = ctx.computed(() => count() * 2, { name: "doubled" });
+      ctx.effect(() => doubled(), { name: "logger" });
+
+      const nodes = listNodes(ctx);
+      const names = nodes.map((node) => `${node.kind}:${node.name}`);
+
+      expect(names).toContain("signal:count");
+      expect(names).toContain("computed:doubled");
+      expect(names).toContain("effect:logger");
+      expect(names).not.toContain("signal:unused");
+      expect(nodes.every((node) => !node.disposed)).toBe(true);
+    });
+
+    test("should report disposed nodes", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const dispose = ctx.effect(() => count());
+      const [node] = getDependencies(dispose);
+
+      ctx.dispose();
+
+      expect(getDependencies(dispose)).toEqual([]);
+      expect(getSubscribers(count)).toEqual([]);
+      expect(listNodes(ctx)).toEqual([]);
+      expect(getOwner(dispose)).toBeUndefined();
+      expect(node.ref).toBe(count);
+    });
+  });
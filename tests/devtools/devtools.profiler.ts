@@ -0,0 +1,156 @@
+import { describe, test, expect } from "bun:test";
+import { createContext, enableProfiler } from "../../lib";
+import type { TraceEvent } from "../../lib";
+
+// Keeps the CPU busy for at least the given time
+const spin = (ms: number) => {
+  const end = performance.now() + ms;
+  while (performance.now() < end) {}
+};
+
+export const devtoolsProfiler = () =>
+  describe("profiler", () => {
+    test("should count effect runs and computed evaluations", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(0);
+      const doubled = ctx.computed(() => count() * 2, { name: "doubled" });
+      ctx.effect(() => doubled(), { name: "logger" });
+
+      count.set(1);
+      count.set(2);
+
+      const { nodes } = profiler.report();
+      const logger = nodes.find((entry) => entry.node.name === "logger");
+      const computed = nodes.find((entry) => entry.node.name === "doubled");
+
+      expect(logger?.runs).toBe(3);
+      expect(logger?.node.kind).toBe("effect");
+      expect(computed?.runs).toBeGreaterThanOrEqual(3);
+      expect(computed?.node.kind).toBe("computed");
+    });
+
+    test("should count recomputes that produced an equal value", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(1);
+      const isPositive = ctx.computed(() => count() > 0, { name: "positive" });
+      ctx.effect(() => isPositive());
+
+      count.set(2);
+      count.set(3);
+      count.set(-1);
+
+      const entry = profiler
+        .report()
+        .nodes.find((node) => node.node.name === "positive");
+
+      expect(entry?.runs).toBe(4);
+      expect(entry?.equalRecomputes).toBe(2);
+    });
+
+    test("should aggregate times and sort the most expensive nodes first", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count(), { name: "cheap" });
+      ctx.effect(
+        () => {
+          count();
+          spin(2);
+        },
+        { name: "slow" }
+      );
+
+      count.set(1);
+
+      const [first, second] = profiler.report().nodes;
+
+      expect(first.node.name).toBe("slow");
+      expect(second.node.name).toBe("cheap");
+      expect(first.totalTime).toBeGreaterThanOrEqual(4);
+      expect(first.maxTime).toBeGreaterThanOrEqual(2);
+      expect(first.meanTime).toBeCloseTo(first.totalTime / 2);
+    });
+
+    test("should record flush durations", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+
+      ctx.batch(() => count.set(1));
+      count.set(2);
+
+      const { flushes, duration } = profiler.report();
+
+      expect(flushes.count).toBe(2);
+      expect(flushes.totalTime).toBeGreaterThanOrEqual(flushes.maxTime);
+      expect(flushes.meanTime).toBeCloseTo(flushes.totalTime / 2);
+      expect(duration).toBeGreaterThanOrEqual(0);
+    });
+
+    test("should export a Chrome trace event file", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count(), { name: "logger" });
+      count.set(1);
+
+      const trace = JSON.parse(profiler.exportTrace()) as {
+        traceEvents: TraceEvent[];
+      };
+      const runs = trace.traceEvents.filter((event) => event.cat === "effect");
+
+      expect(runs).toHaveLength(2);
+      expect(runs[0]).toMatchObject({
+        name: "logger",
+        ph: "X",
+        pid: 1,
+        tid: 1,
+      });
+      expect(runs[1].ts).toBeGreaterThanOrEqual(runs[0].ts);
+      expect(trace.traceEvents.some((event) => event.cat === "flush")).toBe(
+        true
+      );
+    });
+
+    test("should drop the oldest trace events past maxEvents", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx, { maxEvents: 3 });
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+      for (let i = 1; i <= 5; i++) count.set(i);
+
+      const { traceEvents } = JSON.parse(profiler.exportTrace());
+
+      expect(traceEvents).toHaveLength(3);
+      expect(profiler.report().nodes[0].runs).toBe(6);
+    });
+
+    test("should reset and stop collecting", () => {
+      const ctx = createContext();
+      const profiler = enableProfiler(ctx);
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count(), { name: "logger" });
+
+      profiler.reset();
+      expect(profiler.report().nodes).toEqual([]);
+
+      count.set(1);
+      expect(profiler.report().nodes[0].runs).toBe(1);
+
+      profiler.stop();
+      count.set(2);
+
+      expect(profiler.report().nodes[0].runs).toBe(1);
+      expect(profiler.report().flushes.count).toBe(1);
+    });
+  });
@@ -0,0 +1,12 @@
+import { describe } from "bun:test";
+import { devtoolsGraph } from "./devtools.graph";
+import { devtoolsIntrospection } from "./devtools.introspection";
+import { devtoolsProfiler } from "./devtools.profiler";
+import { devtoolsTracing } from "./devtools.tracing";
+
+describe("devtools", () => {
+  devtoolsGraph();
+  devtoolsIntrospection();
+  devtoolsProfiler();
+  devtoolsTracing();
+});
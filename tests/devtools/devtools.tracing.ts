@@ -0,0 +1,131 @@
+import { describe, test, expect, mock } from "bun:test";
+import { createContext, enableTracing, getLastRunCause } from "../../lib";
+import type { RunCause } from "../../lib";
+import { errorSpy } from "../setup";
+
+export const devtoolsTracing = () =>
+  describe("tracing", () => {
+    test("should record the signal write that caused a run", () => {
+      const ctx = createContext();
+      enableTracing(ctx);
+
+      const count = ctx.signal(0, { name: "count" });
+      const dispose = ctx.effect(() => count(), { name: "logger" });
+
+      expect(getLastRunCause(dispose)?.causes).toEqual([]);
+
+      count.set(1);
+      const cause = getLastRunCause(dispose);
+
+      expect(cause?.effect.name).toBe("logger");
+      expect(cause?.causes).toHaveLength(1);
+      expect(cause?.causes[0]).toMatchObject({
+        type: "write",
+        method: "set",
+        oldValue: 0,
+        newValue: 1,
+        node: expect.objectContaining({ name: "count", kind: "signal" }),
+      });
+      expect(cause?.causes[0].stack).toContain("devtools.tracing");
+    });
+
+    test("should record the chain through computed values", () => {
+      const ctx = createContext();
+      enableTracing(ctx, { stack: false });
+
+      const count = ctx.signal(1, { name: "count" });
+      const doubled = ctx.computed(() => count() * 2, { name: "doubled" });
+      const dispose = ctx.effect(() => doubled());
+
+      count.update((n) => n + 1);
+      const [cause] = getLastRunCause(dispose)?.causes ?? [];
+
+      expect(cause).toMatchObject({
+        type: "computed",
+        oldValue: 2,
+        newValue: 4,
+        node: expect.objectContaining({ name: "doubled" }),
+      });
+      expect(cause.causes[0]).toMatchObject({
+        type: "write",
+        method: "update",
+        oldValue: 1,
+        newValue: 2,
+      });
+      expect(cause.causes[0].stack).toBeUndefined();
+    });
+
+    test("should record every write of a batch", () => {
+      const ctx = createContext();
+      enableTracing(ctx, { stack: false });
+
+      const first = ctx.signal("John", { name: "first" });
+      const last = ctx.signal("Doe", { name: "last" });
+      const dispose = ctx.effect(() => `${first()} ${last()}`);
+
+      ctx.batch(() => {
+        first.set("Jane");
+        last.set("Smith");
+      });
+
+      expect(
+        getLastRunCause(dispose)?.causes.map((cause) => cause.node.name)
+      ).toEqual(["first", "last"]);
+    });
+
+    test("should emit run causes through the hook", () => {
+      const ctx = createContext();
+      const causes: RunCause[] = [];
+      enableTracing(ctx, {
+        stack: false,
+        onTrace: (cause) => causes.push(cause),
+      });
+
+      const count = ctx.signal(0);
+      ctx.effect(() => count());
+      count.set(1);
+
+      expect(causes).toHaveLength(2);
+      expect(causes[1].causes[0].newValue).toBe(1);
+    });
+
+    test("should report errors thrown by the hook", () => {
+      const spy = errorSpy();
+      const ctx = createContext();
+      enableTracing(ctx, {
+        onTrace: () => {
+          throw new Error("Hook failed");
+        },
+      });
+
+      const fn = mock();
+      ctx.effect(fn);
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
+    test("should stop recording once disabled", () => {
+      const ctx = createContext();
+      const disable = enableTracing(ctx);
+
+      const count = ctx.signal(0);
+      const dispose = ctx.effect(() => count());
+      disable();
+      count.set(1);
+
+      // The cause of the last traced run is kept
+      expect(getLastRunCause(dispose)?.causes).toEqual([]);
+    });
+
+    test("should not record anything without tracing", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const dispose = ctx.effect(() => count());
+
+      count.set(1);
+
+      expect(getLastRunCause(dispose)).toBeUndefined();
+    });
+  });
@@ -1,5 +1,6 @@
 import { describe, test, expect, mock } from "bun:test";
-import { effect, signal } from "../../lib";
+import { effect, onCleanup, signal } from "../../lib";
+import { errorSpy, tick, warnSpy } from "../setup";
 
 export const effectCleanup = () =>
   describe("cleanup", () => {
@@ -71,4 +72,173 @@ export const effectCleanup = () =>
       source.set(4);
       expect(executionTracker).not.toHaveBeenCalledWith(4);
     });
+    test("should run a returned cleanup before re-running", () => {
+      const source = signal(0);
+      const cleanup = mock();
+      const onCleanupOption = mock();
+
+      const dispose = effect(
+        () => {
+          const value = source();
+          return () => cleanup(value);
+        },
+        { onCleanup: onCleanupOption }
+      );
+
+      source.set(1);
+      expect(cleanup).toHaveBeenCalledWith(0);
+
+      dispose();
+      expect(cleanup).toHaveBeenCalledWith(1);
+      expect(onCleanupOption).toHaveBeenCalledTimes(1);
+    });
+
+    test("should run onCleanup before every re-run and on dispose", () => {
+      const source = signal(0);
+      const calls: string[] = [];
+
+      const dispose = effect(() => {
+        const value = source();
+        calls.push(`run ${value}`);
+        onCleanup(() => calls.push(`cleanup ${value}`));
+      });
+
+      source.set(1);
+      dispose();
+
+      expect(calls).toEqual(["run 0", "cleanup 0", "run 1", "cleanup 1"]);
+    });
+
+    test("should run every registered onCleanup in order", () => {
+      const source = signal(0);
+      const calls: string[] = [];
+
+      effect(() => {
+        source();
+        onCleanup(() => calls.push("first"));
+        onCleanup(() => calls.push("second"));
+      });
+
+      source.set(1);
+      expect(calls).toEqual(["first", "second"]);
+    });
+
+    test("should register onCleanup with the innermost running effect", () => {
+      const outer = signal(0);
+      const inner = signal(0);
+      const outerCleanup = mock();
+      const innerCleanup = mock();
+
+      effect(() => {
+        outer();
+        effect(() => {
+          inner();
+          onCleanup(innerCleanup);
+        });
+        onCleanup(outerCleanup);
+      });
+
+      inner.set(1);
+      expect(innerCleanup).toHaveBeenCalledTimes(1);
+      expect(outerCleanup).not.toHaveBeenCalled();
+    });
+
+    test("should honor onCleanup after await in async effects", async () => {
+      const source = signal(0);
+      const cleanup = mock();
+
+      const dispose = effect(async (onCleanup) => {
+        const value = source();
+        await tick(5);
+        onCleanup(() => cleanup(value));
+      });
+
+      await tick(10);
+      source.set(1);
+      expect(cleanup).toHaveBeenCalledWith(0);
+
+      await tick(10);
+      dispose();
+      expect(cleanup).toHaveBeenCalledWith(1);
+    });
+
+    test("should run onCleanup registered after a stale async run immediately", async () => {
+      const source = signal(0);
+      const cleanup = mock();
+
+      effect(async (onCleanup) => {
+        const value = source();
+        await tick(10);
+        onCleanup(() => cleanup(value));
+      });
+
+      // Re-run before the first run registers its cleanup
+      source.set(1);
+      await tick(5);
+      expect(cleanup).not.toHaveBeenCalled();
+
+      await tick(10);
+      expect(cleanup).toHaveBeenCalledWith(0);
+      expect(cleanup).not.toHaveBeenCalledWith(1);
+    });
+
+    test("should log errors thrown by onCleanup and keep running", () => {
+      const spy = errorSpy();
+      const source = signal(0);
+      const next = mock();
+
+      effect(() => {
+        source();
+        onCleanup(() => {
+          throw new Error("Cleanup failed");
+        });
+        onCleanup(next);
+      });
+
+      source.set(1);
+
+      expect(spy).toHaveBeenCalled();
+      expect(next).toHaveBeenCalledTimes(1);
+      spy.mockRestore();
+    });
+
+    test("should warn when onCleanup is called after await in an async effect", async () => {
+      const spy = warnSpy();
+      const cleanup = mock();
+
+      const dispose = effect(async () => {
+        await tick(5);
+        onCleanup(cleanup);
+      });
+
+      await tick(10);
+      dispose();
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(cleanup).not.toHaveBeenCalled();
+      spy.mockRestore();
+    });
+
+    test("should run cleanups registered after await with the effect argument", async () => {
+      const cleanup = mock();
+
+      const dispose = effect(async (onCleanup) => {
+        await tick(5);
+        onCleanup(cleanup);
+      });
+
+      await tick(10);
+      dispose();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    test("should warn when onCleanup is called outside of an effect", () => {
+      const spy = warnSpy();
+
+      onCleanup(() => {});
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      spy.mockRestore();
+    });
   });
@@ -105,4 +105,40 @@ export const effectDebounce = () =>
       // Effect should not have run again
       expect(effectMock).toHaveBeenCalledTimes(1);
     });
+
+    test("should run at least once per maxWait while updates keep arriving", async () => {
+      const source = signal(0);
+      const effectResults: number[] = [];
+
+      effect(() => effectResults.push(source()), {
+        debounce: 40,
+        maxWait: 100,
+      });
+
+      // Keep updating faster than the debounce time
+      for (let i = 1; i <= 8; i++) {
+        source.set(i);
+        await tick(20);
+      }
+
+      // The burst lasted 160ms, so maxWait forced a run in the middle of it
+      expect(effectResults.length).toBeGreaterThanOrEqual(2);
+      expect(effectResults[1]).toBeLessThan(8);
+
+      await tick(60);
+      expect(effectResults.at(-1)).toBe(8);
+    });
+
+    test("should cancel a maxWait run on dispose", async () => {
+      const source = signal(0);
+      const effectMock = mock(() => source());
+
+      const dispose = effect(effectMock, { debounce: 50, maxWait: 20 });
+
+      source.set(1);
+      dispose();
+      await tick();
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
   });
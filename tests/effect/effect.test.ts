@@ -15,6 +15,7 @@ import { effectAsync } from "./effect.async";
 import { effectDebounce } from "./effect.debounce";
 import { effectCleanup } from "./effect.cleanup";
 import { effectRace } from "./effect.race";
+import { effectThrottle } from "./effect.throttle";
 
 describe("effect", () => {
   // Reset the count before each test
@@ -34,4 +35,5 @@ describe("effect", () => {
   effectRace();
   effectRecursive();
   effectScheduling();
+  effectThrottle();
 });
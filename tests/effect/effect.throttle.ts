@@ -0,0 +1,98 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, signal } from "../../lib";
+import { tick } from "../setup";
+
+export const effectThrottle = () =>
+  describe("throttle", () => {
+    test("should run the leading and trailing updates of a window", async () => {
+      const source = signal(0);
+      const effectResults: number[] = [];
+
+      effect(() => effectResults.push(source()), { throttle: 50 });
+
+      // Initial run is not throttled
+      expect(effectResults).toEqual([0]);
+
+      // The first update runs immediately and opens a window
+      source.set(1);
+      expect(effectResults).toEqual([0, 1]);
+
+      // Updates during the window are coalesced into a trailing run
+      source.set(2);
+      source.set(3);
+      expect(effectResults).toEqual([0, 1]);
+
+      await tick(70);
+      expect(effectResults).toEqual([0, 1, 3]);
+    });
+
+    test("should run at a bounded rate while updates keep arriving", async () => {
+      const source = signal(0);
+      const effectMock = mock(() => source());
+
+      effect(effectMock, { throttle: 50 });
+
+      // Keep updating for about 200ms
+      for (let i = 1; i <= 20; i++) {
+        source.set(i);
+        await tick(10);
+      }
+
+      const runs = effectMock.mock.calls.length;
+      expect(runs).toBeGreaterThanOrEqual(3);
+      expect(runs).toBeLessThanOrEqual(7);
+
+      await tick(70);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(20);
+    });
+
+    test("should skip the leading run when leading is false", async () => {
+      const source = signal(0);
+      const effectResults: number[] = [];
+
+      effect(() => effectResults.push(source()), {
+        throttle: { wait: 40, leading: false },
+      });
+
+      source.set(1);
+      source.set(2);
+      expect(effectResults).toEqual([0]);
+
+      await tick(60);
+      expect(effectResults).toEqual([0, 2]);
+    });
+
+    test("should drop updates made during a window when trailing is false", async () => {
+      const source = signal(0);
+      const effectResults: number[] = [];
+
+      effect(() => effectResults.push(source()), {
+        throttle: { wait: 40, trailing: false },
+      });
+
+      source.set(1);
+      source.set(2);
+      await tick(60);
+      expect(effectResults).toEqual([0, 1]);
+
+      // A new window starts with the next update
+      source.set(3);
+      expect(effectResults).toEqual([0, 1, 3]);
+    });
+
+    test("should cancel the trailing run on dispose", async () => {
+      const source = signal(0);
+      const effectMock = mock(() => source());
+
+      const dispose = effect(effectMock, { throttle: 40 });
+
+      source.set(1);
+      source.set(2);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+
+      dispose();
+      await tick(60);
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+    });
+  });
@@ -0,0 +1,190 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  createContext,
+  effect,
+  getCurrentContext,
+  signal,
+  withContext,
+  withHistory,
+} from "../../lib";
+import { isInstrumented } from "../../lib/utils";
+
+export const historySignal = () =>
+  describe("withHistory", () => {
+    test("should undo and redo writes", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      count.set(1);
+      count.set(2);
+
+      history.undo();
+      expect(count()).toBe(1);
+
+      history.undo();
+      expect(count()).toBe(0);
+
+      history.redo();
+      expect(count()).toBe(1);
+
+      history.redo();
+      expect(count()).toBe(2);
+    });
+
+    test("should expose canUndo and canRedo reactively", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+      const states: string[] = [];
+
+      effect(() => {
+        states.push(`${history.canUndo()} ${history.canRedo()}`);
+      });
+
+      count.set(1);
+      history.undo();
+      history.redo();
+
+      expect(states).toEqual([
+        "false false",
+        "true false",
+        "false true",
+        "true false",
+      ]);
+    });
+
+    test("should drop redo entries on a new write", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      count.set(1);
+      count.set(2);
+      history.undo();
+      count.set(3);
+
+      expect(history.canRedo()).toBe(false);
+
+      history.undo();
+      expect(count()).toBe(1);
+    });
+
+    test("should group the writes of a batch into one entry", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      batch(() => {
+        count.set(1);
+        count.set(2);
+        count.set(3);
+      });
+
+      history.undo();
+      expect(count()).toBe(0);
+      expect(history.canUndo()).toBe(false);
+    });
+
+    test("should not record a batch restoring the previous value", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      batch(() => {
+        count.set(1);
+        count.set(0);
+      });
+
+      expect(history.canUndo()).toBe(false);
+    });
+
+    test("should keep at most limit entries", () => {
+      const count = signal(0);
+      const history = withHistory(count, { limit: 2 });
+
+      count.set(1);
+      count.set(2);
+      count.set(3);
+
+      history.undo();
+      history.undo();
+      history.undo();
+
+      expect(count()).toBe(1);
+    });
+
+    test("should clear the entries without changing the value", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      count.set(1);
+      history.clear();
+
+      expect(count()).toBe(1);
+      expect(history.canUndo()).toBe(false);
+      history.undo();
+      expect(count()).toBe(1);
+    });
+
+    test("should stop recording when disposed", () => {
+      const count = signal(0);
+      const other = signal(0);
+      const history = withHistory(count);
+
+      other.set(1);
+      count.set(1);
+      history.dispose();
+      count.set(2);
+
+      history.undo();
+      expect(count()).toBe(0);
+      expect(other()).toBe(1);
+    });
+
+    test("should record signals of another context", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const history = withHistory(count);
+
+      count.set(1);
+      expect(history.canUndo()).toBe(true);
+
+      history.undo();
+      expect(count()).toBe(0);
+    });
+
+    test("should not instrument the context while recording", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const history = withHistory(count);
+      const state = withContext(ctx, () => getCurrentContext());
+
+      expect(isInstrumented(state)).toBe(false);
+
+      count.set(1);
+      history.undo();
+      expect(count()).toBe(0);
+    });
+
+    test("should apply recorded values without onSet or equals", () => {
+      const onSet = mock();
+      const user = signal(
+        { id: 1, name: "Ada" },
+        { equals: (a, b) => a.id === b.id, onSet }
+      );
+      const history = withHistory(user);
+
+      // One entry whose values are equal by id
+      batch(() => {
+        user.set({ id: 2, name: "Alan" });
+        user.set({ id: 1, name: "Grace" });
+      });
+
+      history.undo();
+      expect(user().name).toBe("Ada");
+      expect(history.canUndo()).toBe(false);
+
+      history.redo();
+      expect(user().name).toBe("Grace");
+      expect(history.canRedo()).toBe(false);
+
+      expect(onSet).toHaveBeenCalledTimes(2);
+    });
+  });
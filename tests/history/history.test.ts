@@ -0,0 +1,8 @@
+import { describe } from "bun:test";
+import { historySignal } from "./history.signal";
+import { historyTimeTravel } from "./history.timetravel";
+
+describe("history", () => {
+  historySignal();
+  historyTimeTravel();
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test";
+import { createContext, enableTimeTravel, withHistory } from "../../lib";
+
+export const historyTimeTravel = () =>
+  describe("enableTimeTravel", () => {
+    test("should record writes to every signal of the context", () => {
+      const ctx = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+
+      const first = ctx.signal("a");
+      const second = ctx.signal(0);
+
+      first.set("b");
+      second.set(1);
+
+      const entries = timeTravel.entries();
+      expect(entries).toHaveLength(2);
+      expect(entries[0].changes).toMatchObject([
+        { oldValue: "a", newValue: "b" },
+      ]);
+      expect(entries[0].changes[0].signal === first).toBe(true);
+      expect(entries[1].changes).toMatchObject([{ oldValue: 0, newValue: 1 }]);
+      expect(entries[1].changes[0].signal === second).toBe(true);
+
+      timeTravel.undo();
+      expect(second()).toBe(0);
+      expect(first()).toBe("b");
+    });
+
+    test("should restore multi-signal snapshots of a batch", () => {
+      const ctx = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+
+      const x = ctx.signal(0);
+      const y = ctx.signal(0);
+      const sums: number[] = [];
+      ctx.effect(() => void sums.push(x() + y()));
+
+      ctx.batch(() => {
+        x.set(1);
+        y.set(2);
+      });
+
+      timeTravel.undo();
+      expect([x(), y()]).toEqual([0, 0]);
+
+      // The effect saw each snapshot once, never a mix of both
+      expect(sums).toEqual([0, 3, 0]);
+    });
+
+    test("should go to any position", () => {
+      const ctx = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+      const count = ctx.signal(0);
+
+      count.set(1);
+      count.set(2);
+      count.set(3);
+
+      timeTravel.goTo(1);
+      expect(count()).toBe(1);
+      expect(timeTravel.position()).toBe(1);
+
+      timeTravel.goTo(3);
+      expect(count()).toBe(3);
+
+      timeTravel.goTo(-5);
+      expect(count()).toBe(0);
+      expect(timeTravel.position()).toBe(0);
+    });
+
+    test("should not record other contexts", () => {
+      const ctx = createContext();
+      const other = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+
+      other.signal(0).set(1);
+
+      expect(timeTravel.entries()).toEqual([]);
+    });
+
+    test("should not record the state of signal histories", () => {
+      const ctx = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+      const count = ctx.signal(0);
+      const history = ctx.untracked(() => withHistory(count));
+
+      count.set(1);
+      history.undo();
+
+      // Only the writes of count are recorded, including the undo
+      const written = timeTravel
+        .entries()
+        .flatMap((entry) => entry.changes)
+        .map((change) => change.signal === count);
+      expect(written).toEqual([true, true]);
+    });
+
+    test("should stop recording when disposed", () => {
+      const ctx = createContext();
+      const timeTravel = enableTimeTravel(ctx);
+      const count = ctx.signal(0);
+
+      timeTravel.dispose();
+      count.set(1);
+
+      expect(timeTravel.canUndo()).toBe(false);
+    });
+  });
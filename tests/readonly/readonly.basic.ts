@@ -0,0 +1,66 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, effect, getSubscribers, readonly, signal } from "../../lib";
+
+export const readonlyBasic = () =>
+  describe("basic", () => {
+    test("should read the value of the original signal", () => {
+      const count = signal(1);
+      const view = readonly(count);
+
+      expect(view()).toBe(1);
+      count.set(2);
+      expect(view()).toBe(2);
+    });
+
+    test("should track the original signal", () => {
+      const count = signal(0);
+      const view = readonly(count);
+      const effectMock = mock(() => view());
+
+      effect(effectMock);
+      count.set(1);
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(1);
+    });
+
+    test("should track computed values", () => {
+      const count = signal(1);
+      const view = readonly(computed(() => count() * 2));
+      const effectMock = mock(() => view());
+
+      effect(effectMock);
+      count.set(2);
+
+      expect(effectMock.mock.results.at(-1)?.value).toBe(4);
+    });
+
+    test("should not expose mutators", () => {
+      const count = signal(0);
+      const view = readonly(count);
+
+      expect("set" in view).toBe(false);
+      expect("update" in view).toBe(false);
+      expect(() => {
+        (view as unknown as { set: unknown }).set = () => {};
+      }).toThrow();
+      expect(count()).toBe(0);
+    });
+
+    test("should return the same view for the same source", () => {
+      const count = signal(0);
+      const view = readonly(count);
+
+      expect(readonly(count)).toBe(view);
+      expect(readonly(view)).toBe(view);
+    });
+
+    test("should share the subscribers of the original signal", () => {
+      const count = signal(0);
+      const view = readonly(count);
+      effect(() => view(), { name: "reader" });
+
+      expect(getSubscribers(view)).toEqual(getSubscribers(count));
+      expect(getSubscribers(view)).toHaveLength(1);
+    });
+  });
@@ -0,0 +1,61 @@
+import { describe, test, expect } from "bun:test";
+import {
+  computed,
+  effect,
+  isComputed,
+  isReadonly,
+  isSignal,
+  readonly,
+  signal,
+  store,
+} from "../../lib";
+
+export const readonlyGuards = () =>
+  describe("guards", () => {
+    const count = signal(0);
+    const doubled = computed(() => count() * 2);
+    const writable = computed({ get: count, set: count.set });
+    const view = readonly(count);
+
+    test("should recognize signals", () => {
+      expect(isSignal(count)).toBe(true);
+      expect(isSignal(doubled)).toBe(false);
+      expect(isSignal(writable)).toBe(false);
+      expect(isSignal(view)).toBe(false);
+    });
+
+    test("should recognize computed values", () => {
+      expect(isComputed(doubled)).toBe(true);
+      expect(isComputed(writable)).toBe(true);
+      expect(isComputed(count)).toBe(false);
+      expect(isComputed(readonly(doubled))).toBe(false);
+    });
+
+    test("should recognize read-only views", () => {
+      expect(isReadonly(view)).toBe(true);
+      expect(isReadonly(count)).toBe(false);
+      expect(isReadonly(doubled)).toBe(false);
+    });
+
+    test("should reject other values", () => {
+      const [state] = store({ value: 1 });
+      const dispose = effect(() => {});
+
+      for (const value of [undefined, null, 1, {}, () => 1, state, dispose]) {
+        expect(isSignal(value)).toBe(false);
+        expect(isComputed(value)).toBe(false);
+        expect(isReadonly(value)).toBe(false);
+      }
+    });
+
+    test("should narrow types", () => {
+      const value: unknown = count;
+
+      if (isSignal(value)) {
+        value.set(1);
+      }
+
+      expect(count()).toBe(1);
+      count.set(0);
+    });
+  });
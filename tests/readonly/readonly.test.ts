@@ -0,0 +1,8 @@
+import { describe } from "bun:test";
+import { readonlyBasic } from "./readonly.basic";
+import { readonlyGuards } from "./readonly.guards";
+
+describe("readonly", () => {
+  readonlyBasic();
+  readonlyGuards();
+});
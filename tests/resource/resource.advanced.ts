@@ -0,0 +1,108 @@
+import { describe, test, expect, mock } from "bun:test";
+import { createContext, resource, signal, withContext } from "../../lib";
+import { tick } from "../setup";
+
+export const resourceAdvanced = () =>
+  describe("advanced", () => {
+    test("should abort stale requests when the source changes", async () => {
+      const id = signal(1);
+      const aborted = mock();
+
+      const data = resource(id, async (id, { signal }) => {
+        signal.addEventListener("abort", () => aborted(id));
+        await tick(id === 1 ? 30 : 5);
+        return id;
+      });
+
+      id.set(2);
+      await tick(50);
+
+      // The first request was aborted and its late result ignored
+      expect(aborted).toHaveBeenCalledWith(1);
+      expect(data.value()).toBe(2);
+    });
+
+    test("should keep the previous value while loading", async () => {
+      const id = signal(1);
+      const data = resource(id, async (id) => id * 2, { keepPrevious: true });
+
+      await tick(0);
+      expect(data.value()).toBe(2);
+
+      id.set(2);
+      expect(data.loading()).toBe(true);
+      expect(data.value()).toBe(2);
+
+      await tick(0);
+      expect(data.value()).toBe(4);
+    });
+
+    test("should clear the value while loading by default", async () => {
+      const id = signal(1);
+      const data = resource(id, async (id) => id * 2);
+
+      await tick(0);
+      id.set(2);
+
+      expect(data.value()).toBeUndefined();
+    });
+
+    test("should refetch the current source", async () => {
+      let counter = 0;
+      const fetcher = mock(async (_: string, info) => {
+        counter++;
+        return { counter, refetching: info.refetching };
+      });
+      const data = resource(() => "key", fetcher);
+
+      await tick(0);
+      const result = await data.refetch();
+
+      expect(result).toEqual({ counter: 2, refetching: true });
+      expect(data.value()).toEqual({ counter: 2, refetching: true });
+      expect(fetcher.mock.calls[1][1].previous).toEqual({
+        counter: 1,
+        refetching: false,
+      });
+    });
+
+    test("should abort the request in flight on dispose", async () => {
+      const aborted = mock();
+      const id = signal(1);
+      const fetcher = mock(async (_: number, { signal }) => {
+        signal.addEventListener("abort", aborted);
+        await tick(10);
+        return "late";
+      });
+      const data = resource(id, fetcher);
+
+      data.dispose();
+      await tick(20);
+
+      expect(aborted).toHaveBeenCalledTimes(1);
+      expect(data.value()).toBeUndefined();
+
+      // No longer reacts to the source
+      id.set(2);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    test("should be disposed with its context", async () => {
+      const ctx = createContext();
+      const aborted = mock();
+      const id = ctx.signal(1);
+
+      const data = withContext(ctx, () =>
+        resource(id, async (_, { signal }) => {
+          signal.addEventListener("abort", aborted);
+          await tick(10);
+          return 1;
+        })
+      );
+
+      expect(data.loading()).toBe(true);
+      ctx.dispose();
+
+      expect(aborted).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -0,0 +1,127 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, resource, signal } from "../../lib";
+import { errorSpy, tick } from "../setup";
+
+export const resourceBasic = () =>
+  describe("basic", () => {
+    test("should load the value for the source", async () => {
+      const id = signal(1);
+      const user = resource(id, async (id) => ({ id, name: `User ${id}` }));
+
+      // Request starts immediately
+      expect(user.loading()).toBe(true);
+      expect(user.value()).toBeUndefined();
+
+      await tick(0);
+
+      expect(user.loading()).toBe(false);
+      expect(user.value()).toEqual({ id: 1, name: "User 1" });
+      expect(user.error()).toBeUndefined();
+    });
+
+    test("should reload when the source changes", async () => {
+      const id = signal(1);
+      const fetcher = mock(async (id: number) => id * 10);
+      const data = resource(id, fetcher);
+
+      await tick(0);
+      expect(data.value()).toBe(10);
+
+      id.set(2);
+      expect(data.loading()).toBe(true);
+
+      await tick(0);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(data.value()).toBe(20);
+    });
+
+    test("should expose errors and stop loading", async () => {
+      const spy = errorSpy();
+      const id = signal(1);
+      const data = resource(id, async () => {
+        throw new Error("Request failed");
+      });
+
+      await tick(0);
+
+      expect(data.loading()).toBe(false);
+      expect(data.error()?.message).toBe("Request failed");
+      expect(spy).toHaveBeenCalled();
+
+      spy.mockRestore();
+    });
+
+    test("should call onError instead of logging", async () => {
+      const onError = mock();
+      resource(
+        () => true,
+        () => Promise.reject("boom"),
+        { onError }
+      );
+
+      await tick(0);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(Error);
+    });
+
+    test("should use the initial value before the first response", async () => {
+      const data = resource(
+        () => "key",
+        async () => ["loaded"],
+        { initialValue: ["initial"], keepPrevious: true }
+      );
+
+      expect(data.value()).toEqual(["initial"]);
+
+      await tick(0);
+      expect(data.value()).toEqual(["loaded"]);
+    });
+
+    test("should keep the initial value until the first request resolves", async () => {
+      const key = signal(1);
+      const data = resource(key, async (k) => k * 10, { initialValue: 99 });
+
+      expect(data.loading()).toBe(true);
+      expect(data.value()).toBe(99);
+
+      await tick(0);
+      expect(data.value()).toBe(10);
+
+      // Later requests clear the value while loading
+      key.set(2);
+      expect(data.value()).toBeUndefined();
+      await tick(0);
+      expect(data.value()).toBe(20);
+    });
+
+    test("should skip fetching for empty sources", async () => {
+      const query = signal<string | null>(null);
+      const fetcher = mock(async (q: string) => q.toUpperCase());
+      const data = resource(query, fetcher);
+
+      expect(data.loading()).toBe(false);
+      expect(fetcher).not.toHaveBeenCalled();
+
+      query.set("abc");
+      await tick(0);
+      expect(data.value()).toBe("ABC");
+    });
+
+    test("should drive effects through its signals", async () => {
+      const id = signal(1);
+      const data = resource(id, async (id) => id);
+      const states: Array<[boolean, number | undefined]> = [];
+
+      effect(() => {
+        states.push([data.loading(), data.value()]);
+      });
+
+      await tick(0);
+
+      expect(states).toEqual([
+        [true, undefined],
+        [false, 1],
+      ]);
+    });
+  });
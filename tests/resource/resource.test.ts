@@ -0,0 +1,8 @@
+import { describe } from "bun:test";
+import { resourceBasic } from "./resource.basic";
+import { resourceAdvanced } from "./resource.advanced";
+
+describe("resource", () => {
+  resourceAdvanced();
+  resourceBasic();
+});
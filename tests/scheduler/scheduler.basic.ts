@@ -0,0 +1,112 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  effect,
+  microtaskScheduler,
+  signal,
+  timeoutScheduler,
+} from "../../lib";
+import { errorSpy, tick } from "../setup";
+
+export const schedulerBasic = () =>
+  describe("basic", () => {
+    test("should run effects in a microtask", async () => {
+      const count = signal(0);
+      const values: number[] = [];
+
+      effect(() => void values.push(count()), {
+        scheduler: microtaskScheduler(),
+      });
+      expect(values).toEqual([]);
+
+      await Promise.resolve();
+      expect(values).toEqual([0]);
+
+      count.set(1);
+      expect(values).toEqual([0]);
+
+      await Promise.resolve();
+      expect(values).toEqual([0, 1]);
+    });
+
+    test("should coalesce the runs scheduled before a flush", async () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+
+      effect(effectMock, { scheduler: microtaskScheduler() });
+      await Promise.resolve();
+
+      count.set(1);
+      count.set(2);
+      count.set(3);
+      await Promise.resolve();
+
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(3);
+    });
+
+    test("should run every effect sharing a scheduler in the same flush", async () => {
+      const scheduler = timeoutScheduler(20);
+      const count = signal(0);
+      const first = mock(() => count());
+      const second = mock(() => count());
+
+      effect(first, { scheduler });
+      effect(second, { scheduler });
+
+      await tick(10);
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+
+      await tick(20);
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    test("should cancel a queued run when the effect is disposed", async () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+
+      const dispose = effect(effectMock, { scheduler: timeoutScheduler(10) });
+      await tick(20);
+
+      count.set(1);
+      dispose();
+      await tick(20);
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should keep running other effects when one is disposed", async () => {
+      const scheduler = microtaskScheduler();
+      const count = signal(0);
+      const kept = mock(() => count());
+      const disposed = mock(() => count());
+
+      effect(kept, { scheduler });
+      const dispose = effect(disposed, { scheduler });
+      dispose();
+      await Promise.resolve();
+
+      expect(kept).toHaveBeenCalledTimes(1);
+      expect(disposed).not.toHaveBeenCalled();
+    });
+
+    test("should log errors thrown by queued runs and run the others", async () => {
+      const spy = errorSpy();
+      const scheduler = microtaskScheduler();
+      const run = mock();
+
+      scheduler(() => {
+        throw new Error("failed");
+      });
+      scheduler(run);
+      await Promise.resolve();
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(
+        "Error in scheduled run:",
+        expect.any(Error)
+      );
+      spy.mockRestore();
+    });
+  });
@@ -0,0 +1,74 @@
+import { describe, test, expect, mock, afterEach } from "bun:test";
+import { effect, idleScheduler, rafScheduler, signal } from "../../lib";
+import { tick } from "../setup";
+
+const globals = globalThis as {
+  requestAnimationFrame?: unknown;
+  cancelAnimationFrame?: unknown;
+  requestIdleCallback?: unknown;
+  cancelIdleCallback?: unknown;
+};
+
+export const schedulerFallback = () =>
+  describe("runtimes", () => {
+    afterEach(() => {
+      delete globals.requestAnimationFrame;
+      delete globals.cancelAnimationFrame;
+      delete globals.requestIdleCallback;
+      delete globals.cancelIdleCallback;
+    });
+
+    test("should fall back to timeouts without animation frames", async () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+
+      effect(effectMock, { scheduler: rafScheduler() });
+      expect(effectMock).not.toHaveBeenCalled();
+
+      await tick(30);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should fall back to timeouts without idle callbacks", async () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+
+      effect(effectMock, { scheduler: idleScheduler() });
+      expect(effectMock).not.toHaveBeenCalled();
+
+      await tick(20);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should use requestAnimationFrame when available", () => {
+      const frames: Array<() => void> = [];
+      const cancelAnimationFrame = mock();
+      globals.requestAnimationFrame = (callback: () => void) =>
+        frames.push(callback);
+      globals.cancelAnimationFrame = cancelAnimationFrame;
+
+      const count = signal(0);
+      const effectMock = mock(() => count());
+      const dispose = effect(effectMock, { scheduler: rafScheduler() });
+
+      expect(frames).toHaveLength(1);
+      frames[0]();
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      count.set(1);
+      dispose();
+      expect(cancelAnimationFrame).toHaveBeenCalledWith(2);
+    });
+
+    test("should pass the timeout to requestIdleCallback", () => {
+      const requestIdleCallback = mock(() => 1);
+      globals.requestIdleCallback = requestIdleCallback;
+      globals.cancelIdleCallback = mock();
+
+      effect(() => {}, { scheduler: idleScheduler({ timeout: 500 }) });
+
+      expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), {
+        timeout: 500,
+      });
+    });
+  });
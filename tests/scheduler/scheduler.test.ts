@@ -0,0 +1,8 @@
+import { describe } from "bun:test";
+import { schedulerBasic } from "./scheduler.basic";
+import { schedulerFallback } from "./scheduler.fallback";
+
+describe("schedulers", () => {
+  schedulerBasic();
+  schedulerFallback();
+});
@@ -0,0 +1,150 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  computed,
+  effect,
+  effectScope,
+  getCurrentScope,
+  onScopeDispose,
+  signal,
+} from "../../lib";
+import { warnSpy } from "../setup";
+
+export const scopeBasic = () =>
+  describe("basic", () => {
+    test("should collect effects created while running", () => {
+      const count = signal(0);
+      const fn = mock(() => count());
+      const scope = effectScope();
+
+      scope.run(() => {
+        effect(fn);
+        effect(fn);
+      });
+
+      count.set(1);
+      expect(fn).toHaveBeenCalledTimes(4);
+
+      scope.stop();
+      count.set(2);
+      expect(fn).toHaveBeenCalledTimes(4);
+      expect(scope.active).toBe(false);
+    });
+
+    test("should return the result of run", () => {
+      const scope = effectScope();
+      const doubled = scope.run(() => {
+        const count = signal(2);
+        return computed(() => count() * 2);
+      });
+
+      expect(doubled?.()).toBe(4);
+    });
+
+    test("should dispose computed values on stop", () => {
+      const count = signal(1);
+      const fn = mock(() => count() * 2);
+      const scope = effectScope();
+      const doubled = scope.run(() => computed(fn));
+
+      scope.stop();
+      count.set(2);
+      doubled?.();
+
+      // Only the initial evaluation, the disposed value no longer tracks
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should run effect cleanups on stop", () => {
+      const cleanup = mock();
+      const scope = effectScope();
+
+      scope.run(() => {
+        effect(() => cleanup, { name: "withCleanup" });
+      });
+
+      scope.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    test("should collect effects created when effects re-run", () => {
+      const show = signal(true);
+      const count = signal(0);
+      const inner = mock(() => count());
+      const scope = effectScope();
+
+      scope.run(() => {
+        effect(() => {
+          if (show()) effect(inner);
+        });
+      });
+
+      show.set(false);
+      show.set(true);
+      expect(inner).toHaveBeenCalledTimes(2);
+
+      scope.stop();
+      count.set(1);
+      expect(inner).toHaveBeenCalledTimes(2);
+    });
+
+    test("should expose the active scope", () => {
+      const scope = effectScope();
+
+      expect(getCurrentScope()).toBeUndefined();
+      scope.run(() => {
+        expect(getCurrentScope()).toBe(scope);
+      });
+      expect(getCurrentScope()).toBeUndefined();
+    });
+
+    test("should run onScopeDispose callbacks on stop", () => {
+      const callback = mock();
+      const scope = effectScope();
+
+      scope.run(() => onScopeDispose(callback));
+      expect(callback).not.toHaveBeenCalled();
+
+      scope.stop();
+      scope.stop();
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should tear down in the order things were added", () => {
+      const order: string[] = [];
+      const scope = effectScope();
+
+      scope.run(() => {
+        onScopeDispose(() => order.push("first callback"));
+        effect(() => () => order.push("effect"));
+        onScopeDispose(() => order.push("second callback"));
+      });
+      scope.stop();
+
+      expect(order).toEqual(["first callback", "effect", "second callback"]);
+    });
+
+    test("should warn when used without an active scope", () => {
+      const spy = warnSpy();
+      const scope = effectScope();
+
+      onScopeDispose(() => {});
+      scope.stop();
+      const result = scope.run(() => 1);
+
+      expect(result).toBeUndefined();
+      expect(spy).toHaveBeenCalledTimes(2);
+
+      spy.mockRestore();
+    });
+
+    test("should forget effects disposed individually", () => {
+      const cleanup = mock();
+      const scope = effectScope();
+      const dispose = scope.run(() => effect(() => {}, { onCleanup: cleanup }));
+
+      dispose?.();
+      scope.stop();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -0,0 +1,69 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, effectScope, onScopeDispose, signal } from "../../lib";
+
+export const scopeNested = () =>
+  describe("nested", () => {
+    test("should stop nested scopes with their parent", () => {
+      const count = signal(0);
+      const fn = mock(() => count());
+      const parent = effectScope();
+      let child = effectScope(true);
+
+      parent.run(() => {
+        child = effectScope();
+        child.run(() => effect(fn));
+      });
+
+      parent.stop();
+      count.set(1);
+
+      expect(child.active).toBe(false);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not stop the parent when a nested scope stops", () => {
+      const callback = mock();
+      const parent = effectScope();
+
+      parent.run(() => {
+        onScopeDispose(callback);
+        effectScope().stop();
+      });
+
+      expect(parent.active).toBe(true);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    test("should not collect detached scopes", () => {
+      const count = signal(0);
+      const fn = mock(() => count());
+      const parent = effectScope();
+      let detached = effectScope(true);
+
+      parent.run(() => {
+        detached = effectScope(true);
+        detached.run(() => effect(fn));
+      });
+
+      parent.stop();
+      count.set(1);
+
+      expect(detached.active).toBe(true);
+      expect(fn).toHaveBeenCalledTimes(2);
+
+      detached.stop();
+    });
+
+    test("should restore the parent scope after a nested run", () => {
+      const cleanup = mock();
+      const parent = effectScope();
+
+      parent.run(() => {
+        effectScope().run(() => {});
+        onScopeDispose(cleanup);
+      });
+
+      parent.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -0,0 +1,68 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, effectScope, signal } from "../../lib";
+
+export const scopePause = () =>
+  describe("pause", () => {
+    test("should defer effects while paused", () => {
+      const count = signal(0);
+      const values: number[] = [];
+      const scope = effectScope();
+
+      scope.run(() => effect(() => void values.push(count())));
+
+      scope.pause();
+      count.set(1);
+      count.set(2);
+      expect(scope.paused).toBe(true);
+      expect(values).toEqual([0]);
+
+      // A paused effect runs once with the latest values
+      scope.resume();
+      expect(values).toEqual([0, 2]);
+
+      count.set(3);
+      expect(values).toEqual([0, 2, 3]);
+    });
+
+    test("should not run unchanged effects on resume", () => {
+      const fn = mock();
+      const scope = effectScope();
+
+      scope.run(() => effect(fn));
+      scope.pause();
+      scope.resume();
+
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should pause nested scopes", () => {
+      const count = signal(0);
+      const fn = mock(() => count());
+      const parent = effectScope();
+
+      parent.run(() => {
+        effectScope().run(() => effect(fn));
+      });
+
+      parent.pause();
+      count.set(1);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      parent.resume();
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should drop deferred runs when stopped", () => {
+      const count = signal(0);
+      const fn = mock(() => count());
+      const scope = effectScope();
+
+      scope.run(() => effect(fn));
+      scope.pause();
+      count.set(1);
+      scope.stop();
+      scope.resume();
+
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
@@ -0,0 +1,10 @@
+import { describe } from "bun:test";
+import { scopeBasic } from "./scope.basic";
+import { scopeNested } from "./scope.nested";
+import { scopePause } from "./scope.pause";
+
+describe("effectScope", () => {
+  scopeBasic();
+  scopeNested();
+  scopePause();
+});
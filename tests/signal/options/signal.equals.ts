@@ -0,0 +1,124 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  signal,
+  effect,
+  shallowEqual,
+  deepEqual,
+  strictEqual,
+} from "../../../lib";
+
+export const signalEquals = () =>
+  describe("equals", () => {
+    // Default comparator uses Object.is semantics
+    test("should use Object.is semantics by default", () => {
+      const value = signal(NaN);
+      const mockFn = mock();
+
+      effect(() => {
+        value();
+        mockFn();
+      });
+
+      // NaN is equal to itself with Object.is
+      value.set(NaN);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+
+      // +0 and -0 are different with Object.is
+      value.set(0);
+      value.set(-0);
+      expect(mockFn).toHaveBeenCalledTimes(3);
+    });
+
+    // Custom comparator suppresses structurally equal writes
+    test("should skip notifications when custom comparator reports equality", () => {
+      const onSet = mock();
+      const user = signal(
+        { id: 1, name: "John" },
+        { equals: shallowEqual, onSet }
+      );
+      const mockFn = mock();
+
+      effect(() => {
+        user();
+        mockFn();
+      });
+
+      const initial = user();
+      user.set({ id: 1, name: "John" });
+
+      // Value, subscribers and onSet are untouched
+      expect(user()).toBe(initial);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(onSet).not.toHaveBeenCalled();
+
+      user.set({ id: 1, name: "Jane" });
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      expect(onSet).toHaveBeenCalledTimes(1);
+    });
+
+    // Comparator also applies to functional updates
+    test("should apply comparator to update()", () => {
+      const items = signal([1, 2, 3], { equals: shallowEqual });
+      const mockFn = mock();
+
+      effect(() => {
+        items();
+        mockFn();
+      });
+
+      items.update((list) => [...list]);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+
+      items.update((list) => [...list, 4]);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+    });
+
+    // Comparator receiving previous and next value allows custom rules
+    test("should pass previous and next value to the comparator", () => {
+      const equals = mock((a: number, b: number) => Math.abs(a - b) < 1);
+      const value = signal<number>(1, { equals });
+
+      value.set(1.5);
+      expect(equals).toHaveBeenCalledWith(1, 1.5);
+      expect(value()).toBe(1);
+
+      value.set(3);
+      expect(value()).toBe(3);
+    });
+
+    test("built-in comparators should compare values correctly", () => {
+      expect(strictEqual(NaN, NaN)).toBe(true);
+      expect(strictEqual({}, {})).toBe(false);
+
+      expect(shallowEqual({ a: 1, b: "x" }, { a: 1, b: "x" })).toBe(true);
+      expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+      expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+      expect(shallowEqual([1, 2], { 0: 1, 1: 2 } as unknown)).toBe(false);
+      expect(shallowEqual<unknown>({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+
+      expect(
+        deepEqual({ a: { b: [1, { c: 2 }] } }, { a: { b: [1, { c: 2 }] } })
+      ).toBe(true);
+      expect(
+        deepEqual({ a: { b: [1, { c: 2 }] } }, { a: { b: [1, { c: 3 }] } })
+      ).toBe(false);
+      expect(deepEqual(new Date(5), new Date(5))).toBe(true);
+      expect(
+        deepEqual(new Map([["a", { x: 1 }]]), new Map([["a", { x: 1 }]]))
+      ).toBe(true);
+      expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+      expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+      expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+      expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 2 }]))).toBe(false);
+      expect(
+        deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))
+      ).toBe(false);
+
+      // Circular structures should not overflow the stack
+      const a: Record<string, unknown> = { name: "node" };
+      const b: Record<string, unknown> = { name: "node" };
+      a["self"] = a;
+      b["self"] = b;
+      expect(deepEqual(a, b)).toBe(true);
+    });
+  });
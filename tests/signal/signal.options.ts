@@ -1,5 +1,6 @@
 import { describe, test, expect } from "bun:test";
 import { signal } from "../../lib";
+import { signalEquals } from "./options/signal.equals";
 import { signalOnSet } from "./options/signal.onSet";
 import { signalValidators } from "./options/signal.validators";
 
@@ -12,6 +13,7 @@ export const signalOptions = () =>
       expect(count._name).toBe("count");
     });
 
+    signalEquals();
     signalOnSet();
     signalValidators();
   });
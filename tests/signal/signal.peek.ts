@@ -0,0 +1,67 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, effect, readonly, signal } from "../../lib";
+
+export const signalPeek = () =>
+  describe("peek", () => {
+    test("should read a signal without tracking it", () => {
+      const count = signal(0);
+      const effectMock = mock(() => count.peek());
+
+      effect(effectMock);
+      count.set(1);
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+      expect(count.peek()).toBe(1);
+    });
+
+    test("should read a computed value without tracking it", () => {
+      const count = signal(1);
+      const doubled = computed(() => count() * 2);
+      const effectMock = mock(() => doubled.peek());
+
+      effect(effectMock);
+      count.set(2);
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+      expect(effectMock.mock.results[0].value).toBe(2);
+    });
+
+    test("should evaluate a stale computed value", () => {
+      const count = signal(1);
+      const computeMock = mock(() => count() * 2);
+      const doubled = computed(computeMock);
+
+      count.set(5);
+
+      expect(doubled.peek()).toBe(10);
+      expect(computeMock).toHaveBeenCalledTimes(2);
+      expect(doubled.peek()).toBe(10);
+      expect(computeMock).toHaveBeenCalledTimes(2);
+    });
+
+    test("should only track the values read normally", () => {
+      const tracked = signal(0);
+      const peeked = signal(0);
+      const effectMock = mock(() => tracked() + peeked.peek());
+
+      effect(effectMock);
+      peeked.set(1);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      tracked.set(1);
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(2);
+    });
+
+    test("should peek through read-only views", () => {
+      const count = signal(3);
+      const view = readonly(count);
+      const effectMock = mock(() => view.peek());
+
+      effect(effectMock);
+      count.set(4);
+
+      expect(effectMock).toHaveBeenCalledTimes(1);
+      expect(view.peek()).toBe(4);
+    });
+  });
@@ -0,0 +1,133 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  batch,
+  computed,
+  createContext,
+  effectScope,
+  getSubscribers,
+  readonly,
+  signal,
+} from "../../lib";
+
+export const signalSubscribe = () =>
+  describe("subscribe", () => {
+    test("should call the listener with the new and previous values", () => {
+      const count = signal(0);
+      const listener = mock();
+
+      count.subscribe(listener);
+      expect(listener).not.toHaveBeenCalled();
+
+      count.set(1);
+      count.set(2);
+
+      expect(listener.mock.calls).toEqual([
+        [1, 0],
+        [2, 1],
+      ]);
+    });
+
+    test("should call the listener right away with immediate", () => {
+      const count = signal(5);
+      const listener = mock();
+
+      count.subscribe(listener, { immediate: true });
+
+      expect(listener).toHaveBeenCalledWith(5, undefined);
+    });
+
+    test("should stop calling the listener once unsubscribed", () => {
+      const count = signal(0);
+      const listener = mock();
+
+      const unsubscribe = count.subscribe(listener);
+      count.set(1);
+      unsubscribe();
+      count.set(2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test("should call the listener once after a batch", () => {
+      const count = signal(0);
+      const listener = mock();
+      count.subscribe(listener);
+
+      batch(() => {
+        count.set(1);
+        count.set(2);
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      expect(listener.mock.calls).toEqual([[2, 0]]);
+    });
+
+    test("should not track signals read by the listener", () => {
+      const count = signal(0);
+      const other = signal(0);
+      const listener = mock(() => other());
+      count.subscribe(listener);
+
+      count.set(1);
+      other.set(1);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test("should subscribe to computed values", () => {
+      const count = signal(1);
+      const parity = computed(() => count() % 2);
+      const listener = mock();
+      parity.subscribe(listener);
+
+      count.set(3);
+      expect(listener).not.toHaveBeenCalled();
+
+      count.set(4);
+      expect(listener).toHaveBeenCalledWith(0, 1);
+    });
+
+    test("should subscribe through read-only views", () => {
+      const count = signal(0);
+      const listener = mock();
+      readonly(count).subscribe(listener);
+
+      count.set(1);
+
+      expect(listener).toHaveBeenCalledWith(1, 0);
+    });
+
+    test("should be listed as a subscriber of the signal", () => {
+      const count = signal(0, { name: "count" });
+      const unsubscribe = count.subscribe(() => {});
+
+      expect(getSubscribers(count)).toMatchObject([
+        { kind: "effect", name: "count_subscriber" },
+      ]);
+
+      unsubscribe();
+      expect(getSubscribers(count)).toHaveLength(0);
+    });
+
+    test("should be disposed with the context of the signal", () => {
+      const ctx = createContext();
+      const count = ctx.signal(0);
+      const listener = mock();
+      count.subscribe(listener);
+
+      const report = ctx.dispose();
+      expect(report.effects).toBe(1);
+    });
+
+    test("should be collected by an effect scope", () => {
+      const count = signal(0);
+      const listener = mock();
+      const scope = effectScope();
+
+      scope.run(() => count.subscribe(listener));
+      scope.stop();
+      count.set(1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
@@ -4,6 +4,8 @@ import { signalAdvanced } from "./signal.advanced";
 import { signalOptions } from "./signal.options";
 import { signalMemory } from "./signal.memory";
 import { signalNested } from "./signal.nested";
+import { signalPeek } from "./signal.peek";
+import { signalSubscribe } from "./signal.subscribe";
 
 describe("signal", () => {
   signalAdvanced();
@@ -11,4 +13,6 @@ describe("signal", () => {
   signalMemory();
   signalNested();
   signalOptions();
+  signalPeek();
+  signalSubscribe();
 });
@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test";
+import { store, unwrap } from "../../lib";
+import { warnSpy } from "../setup";
+
+export const storeBasic = () =>
+  describe("basic", () => {
+    test("should read nested values", () => {
+      const [state] = store({ user: { name: "John", tags: ["a", "b"] } });
+
+      expect(state.user.name).toBe("John");
+      expect(state.user.tags[1]).toBe("b");
+      expect(state.user.tags.length).toBe(2);
+    });
+
+    test("should set values at a path", () => {
+      const [state, setStore] = store({ user: { name: "John", age: 30 } });
+
+      setStore("user", "name", "Jane");
+      expect(state.user.name).toBe("Jane");
+
+      setStore("user", "age", (age) => age + 1);
+      expect(state.user.age).toBe(31);
+    });
+
+    test("should merge values into the root", () => {
+      const [state, setStore] = store({ count: 0, label: "count" });
+
+      setStore({ count: 1 });
+      expect(state).toEqual({ count: 1, label: "count" });
+
+      setStore((s) => ({ ...s, label: "total" }));
+      expect(state.label).toBe("total");
+    });
+
+    test("should replace nested objects and arrays", () => {
+      const [state, setStore] = store({
+        items: [1, 2],
+        user: { name: "John" },
+      });
+
+      setStore("items", [3]);
+      setStore("user", { name: "Jane" });
+
+      expect(state.items).toEqual([3]);
+      expect(state.user.name).toBe("Jane");
+    });
+
+    test("should set array items by index", () => {
+      const [state, setStore] = store({ todos: [{ done: false }] });
+
+      setStore("todos", 0, "done", true);
+      expect(state.todos[0].done).toBe(true);
+    });
+
+    test("should ignore direct writes", () => {
+      const spy = warnSpy();
+      const [state] = store({ count: 0, nested: { value: 1 } });
+
+      state.count = 1;
+      state.nested.value = 2;
+      delete (state as { count?: number }).count;
+
+      expect(state.count).toBe(0);
+      expect(state.nested.value).toBe(1);
+      expect(spy).toHaveBeenCalledTimes(3);
+
+      spy.mockRestore();
+    });
+
+    test("should return the same proxy for the same object", () => {
+      const [state] = store({ user: { name: "John" } });
+
+      expect(state.user).toBe(state.user);
+    });
+
+    test("should unwrap to a plain snapshot", () => {
+      const [state, setStore] = store({ user: { name: "John" }, list: [1] });
+      const snapshot = unwrap(state);
+
+      setStore("user", "name", "Jane");
+
+      expect(snapshot).toEqual({ user: { name: "John" }, list: [1] });
+      expect(unwrap(state.user)).toEqual({ name: "Jane" });
+    });
+
+    test("should unwrap circular references", () => {
+      const node: { name: string; self?: unknown } = { name: "node" };
+      node.self = node;
+      const [state] = store(node);
+      const snapshot = unwrap(state);
+
+      expect(snapshot.self).toBe(snapshot);
+      expect(snapshot).not.toBe(node);
+    });
+  });
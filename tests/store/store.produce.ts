@@ -0,0 +1,91 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, produce, store } from "../../lib";
+
+export const storeProduce = () =>
+  describe("produce", () => {
+    test("should apply mutations to the draft", () => {
+      const [state, setStore] = store({
+        todos: [{ title: "Write tests", done: false }],
+      });
+
+      setStore(
+        "todos",
+        produce((todos) => {
+          todos.push({ title: "Ship", done: false });
+          todos[0].done = true;
+        })
+      );
+
+      expect(state.todos).toEqual([
+        { title: "Write tests", done: true },
+        { title: "Ship", done: false },
+      ]);
+    });
+
+    test("should batch mutations into a single run", () => {
+      const [state, setStore] = store({ first: "John", last: "Doe" });
+      const fn = mock(() => `${state.first} ${state.last}`);
+
+      effect(fn);
+      setStore(
+        produce((draft) => {
+          draft.first = "Jane";
+          draft.last = "Smith";
+        })
+      );
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn.mock.results.at(-1)?.value).toEqual("Jane Smith");
+    });
+
+    test("should delete properties", () => {
+      const [state, setStore] = store<{ a?: number; b: number }>({
+        a: 1,
+        b: 2,
+      });
+      const keys = mock(() => Object.keys(state));
+
+      effect(keys);
+      setStore(
+        produce((draft) => {
+          delete draft.a;
+        })
+      );
+
+      expect(state).toEqual({ b: 2 });
+      expect(keys.mock.results.at(-1)?.value).toEqual(["b"]);
+    });
+
+    test("should notify removed indexes when truncating arrays", () => {
+      const [state, setStore] = store({ items: [1, 2, 3] });
+      const last = mock(() => state.items[2]);
+      const length = mock(() => state.items.length);
+
+      effect(last);
+      effect(length);
+      setStore(
+        "items",
+        produce((items) => {
+          items.length = 1;
+        })
+      );
+
+      expect(last.mock.results.at(-1)?.value).toEqual(undefined);
+      expect(length.mock.results.at(-1)?.value).toEqual(1);
+    });
+
+    test("should notify length when pushing", () => {
+      const [state, setStore] = store({ items: [1] });
+      const length = mock(() => state.items.length);
+
+      effect(length);
+      setStore(
+        "items",
+        produce((items) => {
+          items.push(2, 3);
+        })
+      );
+
+      expect(length.mock.results.at(-1)?.value).toEqual(3);
+    });
+  });
@@ -0,0 +1,10 @@
+import { describe } from "bun:test";
+import { storeBasic } from "./store.basic";
+import { storeTracking } from "./store.tracking";
+import { storeProduce } from "./store.produce";
+
+describe("store", () => {
+  storeBasic();
+  storeProduce();
+  storeTracking();
+});
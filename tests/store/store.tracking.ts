@@ -0,0 +1,90 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, effect, store } from "../../lib";
+
+export const storeTracking = () =>
+  describe("tracking", () => {
+    test("should only re-run effects reading the changed property", () => {
+      const [state, setStore] = store({ user: { name: "John", age: 30 } });
+      const nameFn = mock(() => state.user.name);
+      const ageFn = mock(() => state.user.age);
+
+      effect(nameFn);
+      effect(ageFn);
+
+      setStore("user", "age", 31);
+
+      expect(nameFn).toHaveBeenCalledTimes(1);
+      expect(ageFn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should re-run when a parent object is replaced", () => {
+      const [state, setStore] = store({ user: { name: "John" } });
+      const names: string[] = [];
+
+      effect(() => void names.push(state.user.name));
+      setStore("user", { name: "Jane" });
+
+      expect(names).toEqual(["John", "Jane"]);
+    });
+
+    test("should not re-run for equal values", () => {
+      const [state, setStore] = store({ count: 1 });
+      const fn = mock(() => state.count);
+
+      effect(fn);
+      setStore("count", 1);
+
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should track keys of objects", () => {
+      const [state, setStore] = store<Record<string, number>>({ a: 1 });
+      const keys = computed(() => Object.keys(state));
+
+      expect(keys()).toEqual(["a"]);
+
+      setStore("b", 2);
+      expect(keys()).toEqual(["a", "b"]);
+
+      setStore("a", 3);
+      expect(keys()).toEqual(["a", "b"]);
+    });
+
+    test("should track the in operator", () => {
+      const [state, setStore] = store<{ value?: number }>({});
+      const hasValue = mock(() => "value" in state);
+
+      effect(hasValue);
+      setStore("value", 1);
+
+      expect(hasValue).toHaveBeenCalledTimes(2);
+      expect(hasValue.mock.results.at(-1)?.value).toEqual(true);
+    });
+
+    test("should track iteration over arrays", () => {
+      const [state, setStore] = store({ items: [1, 2] });
+      const sum = computed(() => state.items.reduce((a, b) => a + b, 0));
+      const entries = computed(() => [...state.items]);
+
+      expect(sum()).toBe(3);
+
+      setStore("items", 2, 3);
+      expect(sum()).toBe(6);
+      expect(entries()).toEqual([1, 2, 3]);
+    });
+
+    test("should track iteration over object entries", () => {
+      const [state, setStore] = store<Record<string, number>>({ a: 1 });
+      const total = computed(() => {
+        let sum = 0;
+        for (const key in state) sum += state[key];
+        return sum;
+      });
+
+      setStore("b", 2);
+      expect(total()).toBe(3);
+
+      setStore("a", 5);
+      expect(total()).toBe(7);
+    });
+  });
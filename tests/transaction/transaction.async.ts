@@ -0,0 +1,37 @@
+import { describe, test, expect, mock } from "bun:test";
+import { effect, signal, transaction } from "../../lib";
+import { tick } from "../setup";
+
+export const transactionAsync = () =>
+  describe("async", () => {
+    test("should reject async functions and revert their synchronous writes", () => {
+      const count = signal(0);
+      const effectMock = mock(() => count());
+      effect(effectMock);
+
+      expect(() =>
+        transaction(async () => {
+          count.set(1);
+          await tick(5);
+          count.set(2);
+        })
+      ).toThrow("Transactions can't be async");
+
+      expect(count()).toBe(0);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should commit writes made with awaited results", async () => {
+      const status = signal("idle");
+      const response = await Promise.resolve({ ok: true });
+
+      const result = transaction((rollback) => {
+        if (!response.ok) rollback();
+        status.set("saved");
+        return "saved";
+      });
+
+      expect(result).toBe("saved");
+      expect(status()).toBe("saved");
+    });
+  });
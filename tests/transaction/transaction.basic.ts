@@ -0,0 +1,142 @@
+import { describe, test, expect, mock } from "bun:test";
+import {
+  computed,
+  effect,
+  signal,
+  store,
+  transaction,
+  withHistory,
+} from "../../lib";
+
+export const transactionBasic = () =>
+  describe("basic", () => {
+    test("should commit writes and run effects once", () => {
+      const first = signal("Ada");
+      const last = signal("Lovelace");
+      const effectMock = mock(() => `${first()} ${last()}`);
+      effect(effectMock);
+
+      const result = transaction(() => {
+        first.set("Alan");
+        last.set("Turing");
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(effectMock).toHaveBeenCalledTimes(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe("Alan Turing");
+    });
+
+    test("should restore the previous values when the function throws", () => {
+      const balance = signal(100);
+      const log = signal<string[]>([]);
+      const effectMock = mock(() => balance());
+      effect(effectMock);
+
+      expect(() =>
+        transaction(() => {
+          balance.set(50);
+          log.set(["withdraw 50"]);
+          balance.set(20);
+          throw new Error("insufficient funds");
+        })
+      ).toThrow("insufficient funds");
+
+      expect(balance()).toBe(100);
+      expect(log()).toEqual([]);
+
+      // Effects never saw the reverted writes
+      expect(effectMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("should roll back when rollback is called", () => {
+      const count = signal(0);
+      const after = mock();
+
+      const result = transaction((rollback) => {
+        count.set(1);
+        rollback();
+        after();
+      });
+
+      expect(result).toBeUndefined();
+      expect(after).not.toHaveBeenCalled();
+      expect(count()).toBe(0);
+    });
+
+    test("should restore without calling onSet", () => {
+      const onSet = mock();
+      const count = signal(0, { onSet });
+
+      transaction((rollback) => {
+        count.set(1);
+        rollback();
+      });
+
+      expect(onSet).toHaveBeenCalledTimes(1);
+      expect(count()).toBe(0);
+    });
+
+    test("should keep computed values consistent after a rollback", () => {
+      const count = signal(1);
+      const doubled = computed(() => count() * 2);
+      const quadrupled = computed(() => doubled() * 2);
+      const effectMock = mock(() => quadrupled());
+      effect(effectMock);
+
+      transaction((rollback) => {
+        count.set(5);
+        // Reading computes the values of the transaction
+        expect(quadrupled()).toBe(20);
+        rollback();
+      });
+
+      expect(doubled()).toBe(2);
+      expect(quadrupled()).toBe(4);
+      expect(effectMock).toHaveBeenCalledTimes(1);
+
+      count.set(2);
+      expect(effectMock.mock.results.at(-1)?.value).toBe(8);
+    });
+
+    test("should not record rolled back writes in signal histories", () => {
+      const count = signal(0);
+      const history = withHistory(count);
+
+      transaction((rollback) => {
+        count.set(1);
+        rollback();
+      });
+
+      expect(history.canUndo()).toBe(false);
+    });
+
+    test("should keep the effects of store writes on rollback", () => {
+      const [state, setStore] = store({ count: 0 });
+      const label = signal("none");
+      const doubled = computed(() => state.count * 2);
+      const storeMock = mock(() => doubled());
+      const labelMock = mock(() => label());
+      effect(storeMock);
+      effect(labelMock);
+
+      transaction((rollback) => {
+        setStore("count", 5);
+        label.set("five");
+        rollback();
+      });
+
+      // The store keeps its write, and its readers see it
+      expect(state.count).toBe(5);
+      expect(storeMock).toHaveBeenCalledTimes(2);
+      expect(storeMock.mock.results.at(-1)?.value).toBe(10);
+
+      // Effects of reverted signals only did not see the writes
+      expect(label()).toBe("none");
+      expect(labelMock).toHaveBeenCalledTimes(1);
+
+      // The node still notifies later writes
+      setStore("count", 6);
+      expect(storeMock.mock.results.at(-1)?.value).toBe(12);
+    });
+  });
@@ -0,0 +1,55 @@
+import { describe, test, expect, mock } from "bun:test";
+import { batch, effect, signal, transaction } from "../../lib";
+
+export const transactionNested = () =>
+  describe("nested", () => {
+    test("should only revert the writes of an inner rollback", () => {
+      const a = signal(0);
+      const b = signal(0);
+
+      transaction(() => {
+        a.set(1);
+        transaction((rollback) => {
+          a.set(2);
+          b.set(2);
+          rollback();
+        });
+        expect([a(), b()]).toEqual([1, 0]);
+      });
+
+      expect([a(), b()]).toEqual([1, 0]);
+    });
+
+    test("should revert committed inner writes when the outer transaction fails", () => {
+      const a = signal(0);
+      const b = signal(0);
+
+      transaction((rollback) => {
+        a.set(1);
+        transaction(() => b.set(1));
+        rollback();
+      });
+
+      expect([a(), b()]).toEqual([0, 0]);
+    });
+
+    test("should keep effects queued before the transaction", () => {
+      const outside = signal(0);
+      const inside = signal(0);
+      const outsideEffect = mock(() => outside());
+      const insideEffect = mock(() => inside());
+      effect(outsideEffect);
+      effect(insideEffect);
+
+      batch(() => {
+        outside.set(1);
+        transaction((rollback) => {
+          inside.set(1);
+          rollback();
+        });
+      });
+
+      expect(outsideEffect).toHaveBeenCalledTimes(2);
+      expect(insideEffect).toHaveBeenCalledTimes(1);
+    });
+  });
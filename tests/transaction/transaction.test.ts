@@ -0,0 +1,10 @@
+import { describe } from "bun:test";
+import { transactionAsync } from "./transaction.async";
+import { transactionBasic } from "./transaction.basic";
+import { transactionNested } from "./transaction.nested";
+
+describe("transaction", () => {
+  transactionAsync();
+  transactionBasic();
+  transactionNested();
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, mock } from "bun:test";
+import { computed, onCleanup, signal, watch } from "../../lib";
+
+export const watchBasic = () =>
+  describe("basic", () => {
+    test("should call the callback with the new and old values", () => {
+      const count = signal(0);
+      const callback = mock();
+
+      watch(count, callback);
+      expect(callback).not.toHaveBeenCalled();
+
+      count.set(1);
+      count.set(2);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback.mock.calls[0].slice(0, 2)).toEqual([1, 0]);
+      expect(callback.mock.calls[1].slice(0, 2)).toEqual([2, 1]);
+    });
+
+    test("should only track the source", () => {
+      const count = signal(0);
+      const other = signal("a");
+      const callback = mock((value: number) => `${value}${other()}`);
+
+      watch(count, callback);
+
+      other.set("b");
+      expect(callback).not.toHaveBeenCalled();
+
+      count.set(1);
+      expect(callback.mock.results.at(-1)?.value).toBe("1b");
+
+      // Reading other in the callback did not subscribe the watcher to it
+      other.set("c");
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should watch getters and computed values", () => {
+      const user = signal({ name: "Ada", age: 36 });
+      const initials = computed(() => user().name[0]);
+      const onName = mock();
+      const onInitials = mock();
+
+      watch(() => user().name, onName);
+      watch(initials, onInitials);
+
+      // The getter returns the same name, so the callback is skipped
+      user.set({ name: "Ada", age: 37 });
+      expect(onName).not.toHaveBeenCalled();
+
+      user.set({ name: "Alan", age: 41 });
+      expect(onName.mock.calls[0].slice(0, 2)).toEqual(["Alan", "Ada"]);
+      expect(onInitials).not.toHaveBeenCalled();
+    });
+
+    test("should watch a list of sources", () => {
+      const first = signal("Ada");
+      const last = signal("Lovelace");
+      const callback = mock();
+
+      watch([first, last], callback);
+
+      last.set("Byron");
+      expect(callback.mock.calls[0].slice(0, 2)).toEqual([
+        ["Ada", "Byron"],
+        ["Ada", "Lovelace"],
+      ]);
+
+      // Setting the same values does not call the callback
+      first.set("Ada");
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should run cleanups before the next call and on stop", () => {
+      const count = signal(0);
+      const cleanups: string[] = [];
+
+      const stop = watch(count, (value, _, onCleanupFn) => {
+        onCleanupFn(() => cleanups.push(`callback ${value}`));
+        onCleanup(() => cleanups.push(`helper ${value}`));
+      });
+
+      count.set(1);
+      expect(cleanups).toEqual([]);
+
+      count.set(2);
+      expect(cleanups).toEqual(["callback 1", "helper 1"]);
+
+      stop();
+      expect(cleanups).toEqual([
+        "callback 1",
+        "helper 1",
+        "callback 2",
+        "helper 2",
+      ]);
+    });
+
+    test("should stop watching when stopped", () => {
+      const count = signal(0);
+      const callback = mock();
+
+      const stop = watch(count, callback);
+      stop();
+      count.set(1);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
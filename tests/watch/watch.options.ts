@@ -0,0 +1,68 @@
+import { describe, test, expect, mock } from "bun:test";
+import { getDependencies, signal, store, watch } from "../../lib";
+
+export const watchOptions = () =>
+  describe("options", () => {
+    test("should call the callback on creation with immediate", () => {
+      const count = signal(1);
+      const callback = mock();
+
+      watch(count, callback, { immediate: true });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0].slice(0, 2)).toEqual([1, undefined]);
+    });
+
+    test("should stop after the first call with once", () => {
+      const count = signal(0);
+      const callback = mock();
+
+      watch(count, callback, { once: true });
+
+      count.set(1);
+      count.set(2);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0]).toBe(1);
+    });
+
+    test("should stop after the immediate call with once", () => {
+      const count = signal(0);
+      const callback = mock();
+
+      const stop = watch(count, callback, { immediate: true, once: true });
+      count.set(1);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(getDependencies(stop)).toEqual([]);
+    });
+
+    test("should use a custom equality function", () => {
+      const point = signal({ x: 0, y: 0 });
+      const callback = mock();
+
+      watch(point, callback, { equals: (a, b) => a.x === b.x });
+
+      point.set({ x: 0, y: 1 });
+      expect(callback).not.toHaveBeenCalled();
+
+      point.set({ x: 1, y: 1 });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("should track nested properties with deep", () => {
+      const [state, setState] = store({ user: { name: "Ada", tags: ["a"] } });
+      const shallow = mock();
+      const deep = mock();
+
+      watch(() => state.user, shallow);
+      watch(() => state.user, deep, { deep: true });
+
+      setState("user", "name", "Alan");
+      setState("user", "tags", 1, "b");
+
+      expect(shallow).not.toHaveBeenCalled();
+      expect(deep).toHaveBeenCalledTimes(2);
+      expect(deep.mock.calls[1][0]).toBe(state.user);
+    });
+  });
@@ -0,0 +1,8 @@
+import { describe } from "bun:test";
+import { watchBasic } from "./watch.basic";
+import { watchOptions } from "./watch.options";
+
+describe("watch", () => {
+  watchBasic();
+  watchOptions();
+});